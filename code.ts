@@ -1,47 +1,32 @@
-const bulletCharacterMap: { [key: string]: string } = {
-  "•": "&#8226;",
-  "*": "&#8226;",
-  "-": "&#8211;",
+// entrada do plugin: UI, mensagens e acesso ao documento do figma; a conversão em si fica em email.ts
+// exportação em lote: uma pasta por frame no zip; caminhos relativos à raiz do zip
+type BatchManifestEntry = {
+  name: string;
+  nodeId: string;
+  width: number;
+  height: number;
+  file: string;
+  assets: string[];
+  partials: string[];
+  cached: boolean; // frame igual ao da última exportação: saiu do cache, sem converter de novo
+  warnings: number;
 };
 
-type RgbColor = { r: number; g: number; b: number };
-type RgbaColor = { r: number; g: number; b: number; a: number };
-type ImageExportMode = 'placeholder' | 'base64';
-
-function figmaColorToHex(color: RgbColor): string {
-  const toHex = (c: number) => ("0" + Math.round(c * 255).toString(16)).slice(-2);
-  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
-}
-
-function findParentBackgroundColor(node: SceneNode): RgbColor {
-  let parent = node.parent;
-  while (parent && parent.type !== "PAGE") {
-    if (
-      "fills" in parent &&
-      Array.isArray(parent.fills) &&
-      parent.fills.length > 0
-    ) {
-      const solidFill = parent.fills.find(
-        (f) => (f.type === "SOLID" || f.type.startsWith("GRADIENT")) && f.visible !== false
-      ) as SolidPaint | GradientPaint;
-
-      if (solidFill) {
-        if (solidFill.type === 'SOLID') {
-          if ((solidFill.opacity ?? 1) >= 0.99) {
-            return solidFill.color;
-          }
-        } else {
-          const firstStop = solidFill.gradientStops[0];
-          if ((firstStop.color.a ?? 1) >= 0.99) {
-            return { r: firstStop.color.r, g: firstStop.color.g, b: firstStop.color.b };
-          }
-        }
-      }
-    }
-    parent = parent.parent;
-  }
-  return { r: 1, g: 1, b: 1 };
-}
+type BatchExportEntry = {
+  folder: string;
+  fileName: string;
+  html: string;
+  assets: EmailAsset[];
+  templates: TemplateExport | null;
+};
+
+type BatchCacheEntry = { fingerprint: string; result: ConversionResult };
+
+// conjunto de opções com nome, salvo no documento pra equipe toda usar; fontes e título/preheader ficam de fora
+type ExportProfile = {
+  name: string;
+  settings: Partial<Omit<ConversionSettings, 'fontMappings' | 'documentTitle' | 'preheaderText'>>;
+};
 
 async function collectAndLoadAllFonts(nodes: readonly SceneNode[]) {
   const fontNames = new Set<FontName>();
@@ -63,593 +48,554 @@ async function collectAndLoadAllFonts(nodes: readonly SceneNode[]) {
   }
 }
 
-class FigmaPluginParser {
-  private useLiteralWidth = false;
+const FONT_MAPPINGS_KEY = 'fontMappings';
 
-  constructor(useLiteralWidth: boolean) {
-    this.useLiteralWidth = useLiteralWidth;
+function loadFontMappings(): FontMapping[] {
+  try {
+    const saved = JSON.parse(figma.root.getPluginData(FONT_MAPPINGS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
   }
+}
 
-  private sanitizeStyles(styleStr: string): string {
-    if (!styleStr) return "";
-    const styleMap = new Map<string, string>();
-    styleStr.split(";").filter((rule) => rule.trim()).forEach((rule) => {
-      const [key, ...valueParts] = rule.split(":");
-      const value = valueParts.join(":").trim();
-      if (!key || !value) return;
-      const prop = key.trim();
-      styleMap.set(prop, value);
-    });
-    return Array.from(styleMap.entries()).map(([k, v]) => `${k}:${v}`).join(";");
-  }
+function saveFontMappings(fontMappings: FontMapping[]) {
+  figma.root.setPluginData(FONT_MAPPINGS_KEY, JSON.stringify(fontMappings));
+}
 
-  private cleanZeroValueStyles(styleStr: string): string {
-    if (!styleStr) return "";
-    return styleStr.split(";").filter((rule) => {
-      if (!rule.trim()) return false;
-      const [key, value] = rule.split(":").map(s => s.trim());
-      if (!value) return true;
-      const isZero = /^0(px|pt|em|%|vw|vh)?$/.test(value);
-      if (key.includes("border-radius") || (key.startsWith("padding") || key.startsWith("margin") || key.startsWith("border")) && isZero) {
-        return false;
-      }
-      return true;
-    }).join(";");
+// últimos settings da UI: por usuário (clientStorage), não por arquivo
+const SETTINGS_STORAGE_KEY = 'settings';
+const EXPORT_PROFILES_KEY = 'exportProfiles';
+const PINNED_PROFILE_KEY = 'exportProfile';
+
+function loadExportProfiles(): ExportProfile[] {
+  try {
+    const saved = JSON.parse(figma.root.getPluginData(EXPORT_PROFILES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
   }
+}
 
-  // --- auxiliares de fallback de fonte ---
-  private getFontStack(family: string): string {
-    const sansSerif = "Arial, Helvetica, sans-serif";
-    const serif = "Georgia, 'Times New Roman', serif";
-    const monospace = "'Courier New', Courier, monospace";
-
-    const lower = family.toLowerCase();
-    if (lower.includes('inter') || lower.includes('roboto') || lower.includes('helvetica') || lower.includes('arial')) return `'${family}', ${sansSerif}`;
-    if (lower.includes('times') || lower.includes('georgia') || lower.includes('serif')) return `'${family}', ${serif}`;
-    if (lower.includes('mono') || lower.includes('courier')) return `'${family}', ${monospace}`;
+function saveExportProfiles(profiles: ExportProfile[]) {
+  figma.root.setPluginData(EXPORT_PROFILES_KEY, JSON.stringify(profiles));
+}
 
-    return `'${family}', ${sansSerif}`;
+// perfil fixado no node ou no ancestral mais próximo (selecionar um filho do e-mail também vale)
+function getPinnedProfileName(node: BaseNode | null): string {
+  while (node && node.type !== 'PAGE' && node.type !== 'DOCUMENT') {
+    const name = node.getPluginData(PINNED_PROFILE_KEY);
+    if (name) return name;
+    node = node.parent;
   }
+  return '';
+}
 
-  private getSegmentStyleObject(style: any, parentBgColor: RgbColor): { [key: string]: string } {
-    const styles: { [key: string]: string } = {};
-    if (style.fills && style.fills.length > 0) {
-      const { hex: colorHex } = this.getEffectiveBackgroundColorForFills(style.fills, parentBgColor);
-      if (colorHex) styles['color'] = colorHex;
-    }
-    if (style.fontName?.family) {
-      styles['font-family'] = this.getFontStack(style.fontName.family);
-      const f_style = style.fontName.style.toLowerCase();
+function saveNodeOverrides(node: BaseNode, overrides: NodeOverrides) {
+  // só guarda o que foi preenchido; sem nada, limpa a chave
+  const cleaned: NodeOverrides = {};
+  if (overrides.link && overrides.link.trim()) cleaned.link = overrides.link.trim();
+  if (overrides.alt && overrides.alt.trim()) cleaned.alt = overrides.alt.trim();
+  if (overrides.decorative) cleaned.decorative = true;
+  if (overrides.skip) cleaned.skip = true;
+  if (overrides.rasterize) cleaned.rasterize = true;
+  if (overrides.literalWidth) cleaned.literalWidth = true;
+  if (overrides.rawHtml && overrides.rawHtml.trim()) cleaned.rawHtml = overrides.rawHtml.trim();
+  node.setPluginData(NODE_OVERRIDES_KEY, Object.keys(cleaned).length > 0 ? JSON.stringify(cleaned) : '');
+}
 
-      // apenas negrito ou italico, normal é padrao
-      if (f_style.includes('bold')) styles['font-weight'] = 'bold';
-      if (f_style.includes('italic')) styles['font-style'] = 'italic';
-    }
-    if (style.fontSize) styles['font-size'] = `${Math.round(style.fontSize)}px`;
-    if (style.lineHeight?.unit !== 'AUTO') {
-      if (style.lineHeight.unit === 'PIXELS') styles['line-height'] = `${Math.round(style.lineHeight.value)}px`;
-      else if (style.lineHeight.unit === 'PERCENT') styles['line-height'] = `${Math.round(style.lineHeight.value)}%`;
+// --- modo escuro a partir das variáveis de cor ---
+function collectColorVariableIds(nodes: EmailNode[]): string[] {
+  const ids: string[] = [];
+  const addPaints = (paints: readonly Paint[] | null) => {
+    for (const paint of paints || []) {
+      const alias = paint.type === 'SOLID' ? paint.boundVariables?.color : undefined;
+      if (alias && ids.indexOf(alias.id) === -1) ids.push(alias.id);
     }
+  };
+  const walk = (node: EmailNode) => {
+    addPaints(node.fills);
+    addPaints(node.strokes);
+    node.segments.forEach(segment => addPaints(segment.fills));
+    node.children.forEach(walk);
+    if (node.mainComponent) walk(node.mainComponent);
+  };
+  nodes.forEach(walk);
+  return ids;
+}
 
-    // apenas underline, none é padrao
-    if (style.textDecoration === "UNDERLINE") styles['text-decoration'] = 'underline';
-    return styles;
-  }
-
-  private styleObjectToCssString(styleObj: { [key: string]: string }): string {
-    if (!styleObj || Object.keys(styleObj).length === 0) return "";
-    const css = Object.keys(styleObj)
-      .map(key => `${key}:${styleObj[key]}`)
-      .join(';');
-    return css ? `${css};` : '';
+// modo "escuro" = o primeiro modo da coleção com "dark" no nome
+async function resolveVariableInDarkMode(variableId: string, depth = 0): Promise<RGBA | null> {
+  if (depth > 8) return null; // alias em loop
+  const variable = await figma.variables.getVariableByIdAsync(variableId);
+  if (!variable || variable.resolvedType !== 'COLOR') return null;
+  const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+  if (!collection) return null;
+  const darkMode = collection.modes.find(mode => /dark/i.test(mode.name));
+  const value = variable.valuesByMode[darkMode ? darkMode.modeId : collection.defaultModeId];
+  if (typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    return resolveVariableInDarkMode(value.id, depth + 1);
   }
+  if (!darkMode || typeof value !== 'object' || !('r' in value)) return null;
+  return { r: value.r, g: value.g, b: value.b, a: 'a' in value ? value.a : 1 };
+}
 
-  private diffStyleObjects(baseStyle: { [key: string]: string }, segmentStyle: { [key: string]: string }): { [key: string]: string } {
-    const diff: { [key: string]: string } = {};
-    for (const key in segmentStyle) {
-      if (baseStyle[key] !== segmentStyle[key]) {
-        diff[key] = segmentStyle[key];
-      }
-    }
-    return diff;
+async function resolveDarkModeColors(nodes: EmailNode[]): Promise<DarkModeColors> {
+  const darkModeColors: DarkModeColors = {};
+  for (const id of collectColorVariableIds(nodes)) {
+    const color = await resolveVariableInDarkMode(id);
+    if (color) darkModeColors[id] = color;
   }
+  return darkModeColors;
+}
 
-  private processTextNode(node: TextNode, parentBgColor: RgbColor): { baseStyle: { [key: string]: string }, innerHtml: string } {
-    if (!node.characters?.trim()) {
-      return { baseStyle: {}, innerHtml: "" };
-    }
-    const segments = node.getStyledTextSegments(['fontName', 'fontSize', 'fills', 'lineHeight', 'textDecoration']);
-    if (segments.length === 0) {
-      return { baseStyle: {}, innerHtml: "" };
+// família -> estilos usados (pra montar a URL da web font)
+function collectFontFamilies(nodes: readonly SceneNode[]): Map<string, string[]> {
+  const families = new Map<string, string[]>();
+  function findFamilies(node: SceneNode) {
+    if (node.type === 'TEXT') {
+      node.getStyledTextSegments(['fontName']).forEach(({ fontName }) => {
+        const styles = families.get(fontName.family) || [];
+        if (styles.indexOf(fontName.style) === -1) styles.push(fontName.style);
+        families.set(fontName.family, styles);
+      });
     }
-
-    // aqui a gente descobre qual o estilo base pro TD pai.
-    // em vez de pegar só o primeiro, pegamos o estilo que mais aparece (por quantidade de chars)
-    // isso evita criar varios spans desnecessarios
-    const styleCounts = new Map<string, { count: number, style: { [key: string]: string } }>();
-    let maxCount = -1;
-    let mostCommonStyle: { [key: string]: string } = {};
-
-    const processedSegments = segments.map(segment => {
-      if (typeof segment.fontName === 'symbol') return null;
-
-      const style = this.getSegmentStyleObject(segment, parentBgColor);
-      const styleKey = JSON.stringify(style);
-
-      const current = styleCounts.get(styleKey) || { count: 0, style };
-      current.count += segment.characters.length;
-      styleCounts.set(styleKey, current);
-
-      if (current.count > maxCount) {
-        maxCount = current.count;
-        mostCommonStyle = style;
+    if ("children" in node) {
+      for (const child of node.children) {
+        findFamilies(child);
       }
-      return { segment, style };
-    });
-
-    // fallback: usa o primeiro se der ruim no calculo
-    if (Object.keys(mostCommonStyle).length === 0) {
-      const firstValid = processedSegments.find(s => s !== null);
-      if (firstValid) mostCommonStyle = firstValid.style;
     }
+  }
+  for (const node of nodes) {
+    findFamilies(node);
+  }
+  return families;
+}
 
-    const baseStyle = mostCommonStyle;
-    let htmlOutput = "";
+// pedidos pra UI (que tem canvas) reencodar JPG; a resposta volta pelo onmessage
+const pendingJpegReencodes = new Map<number, (bytes: Uint8Array) => void>();
+let nextJpegReencodeId = 0;
 
-    for (const item of processedSegments) {
-      if (!item) continue;
-      const { segment, style: segmentStyle } = item;
+function requestJpegReencode(bytes: Uint8Array, quality: number): Promise<Uint8Array> {
+  return new Promise(resolve => {
+    const id = ++nextJpegReencodeId;
+    pendingJpegReencodes.set(id, resolve);
+    figma.ui.postMessage({ type: 'reencode-jpeg', payload: { id, bytes, quality } });
+  });
+}
 
-      // compara com o estilo base
-      const styleDiff = this.diffStyleObjects(baseStyle, segmentStyle);
+const sceneNodeImageExporter: NodeImageExporter = {
+  async exportImage(nodeId, settings) {
+    const node = await figma.getNodeByIdAsync(nodeId).catch(() => null);
+    if (!node || !("exportAsync" in node)) throw new Error(`Node ${nodeId} not found`);
+    return node.exportAsync(settings);
+  },
+  reencodeJpeg: requestJpegReencode,
+  async exportImageFill(imageHash) {
+    const image = figma.getImageByHash(imageHash);
+    if (!image) throw new Error(`Image ${imageHash} not found`);
+    return image.getBytesAsync();
+  },
+};
 
-      const sanitizedChars = segment.characters.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br />");
-      const finalContent = bulletCharacterMap[sanitizedChars.trim()] || sanitizedChars;
+figma.showUI(__html__, { width: 400, height: 480 });
+figma.ui.postMessage({ type: 'font-mappings', payload: { fontMappings: loadFontMappings() } });
+figma.ui.postMessage({ type: 'export-profiles', payload: { profiles: loadExportProfiles() } });
+figma.clientStorage.getAsync(SETTINGS_STORAGE_KEY)
+  .catch(() => null)
+  .then(settings => {
+    figma.ui.postMessage({ type: 'saved-settings', payload: { settings: settings || null } });
+    // depois dos settings salvos, senão o perfil fixado da seleção inicial seria sobrescrito
+    postSelectedNodeOverrides();
+    postPinnedProfile();
+  });
+figma.on('selectionchange', () => {
+  postSelectedNodeOverrides();
+  postPinnedProfile();
+});
+
+// cancel-conversion só liga a flag; o parser confere nos checkpoints e nas exportações pendentes
+let conversionCancelled = false;
+
+function createConversionMonitor(): ConversionMonitor {
+  conversionCancelled = false;
+  let lastPost = 0;
+  return {
+    onProgress(done, total) {
+      // postMessage a cada node travaria a UI em arquivo grande
+      const now = Date.now();
+      if (done < total && now - lastPost < 100) return;
+      lastPost = now;
+      figma.ui.postMessage({ type: 'conversion-progress', payload: { done, total } });
+    },
+    isCancelled: () => conversionCancelled,
+  };
+}
 
-      if (!finalContent) continue;
+function notifyConversionCancelled() {
+  figma.notify("Conversion cancelled.");
+  figma.ui.postMessage({ type: 'conversion-cancelled' });
+}
 
-      if (Object.keys(styleDiff).length === 0) {
-        htmlOutput += finalContent;
-      } else {
-        let tag = 'span';
-        const diffKeys = Object.keys(styleDiff);
-        // otimização pra umas tags mais simples
-        if (diffKeys.length === 1 && diffKeys[0] === 'font-weight' && styleDiff['font-weight'] === 'bold') {
-          tag = 'strong';
-        } else if (diffKeys.length === 1 && diffKeys[0] === 'font-style' && styleDiff['font-style'] === 'italic') {
-          tag = 'i';
-        }
+// qualquer outro erro também tem que liberar a UI, senão ela fica presa no "CONVERTING..."
+function notifyConversionFailed(e: unknown) {
+  if (e instanceof ConversionCancelledError) {
+    notifyConversionCancelled();
+    return;
+  }
+  const message = e instanceof Error ? e.message : String(e);
+  figma.notify(`Conversion failed: ${message}`, { error: true });
+  figma.ui.postMessage({ type: 'conversion-error', payload: { message } });
+}
 
-        const diffCss = this.styleObjectToCssString(styleDiff);
-        htmlOutput += `<${tag} ${diffCss ? `style="${diffCss}"` : ''}>${finalContent}</${tag}>`;
-      }
-    }
+// largura do preview na UI: a do frame mais largo, igual ao breakpoint do parser
+function getPreviewWidth(nodes: readonly EmailNode[]): number {
+  return nodes.length > 0 ? Math.round(Math.max(...nodes.map(node => node.width))) : 600;
+}
 
-    return { baseStyle, innerHtml: htmlOutput };
-  }
+// node de cima da última conversão; o preview compara o html com o PNG dele
+let lastConvertedNodeId: string | null = null;
 
-  private getBorderStyles(node: SceneNode): string | null {
-    if (!("strokes" in node) || !Array.isArray(node.strokes) || node.strokes.length === 0 || !("strokeWeight" in node) || typeof node.strokeWeight !== 'number' || node.strokeWeight === 0) {
-      return null;
-    }
-    const stroke = node.strokes.find((s) => s.visible !== false && s.type === "SOLID") as SolidPaint | undefined;
-    if (!stroke || !stroke.color) return null;
-    const weight = Math.round(node.strokeWeight);
-    if (weight === 0) return null;
-    const parentBg = findParentBackgroundColor(node);
-    const { hex: colorHex } = this.getEffectiveBackgroundColorForFills([stroke], parentBg);
-    return `border: ${weight}px solid ${colorHex || '#000000'};`;
+async function processSelection(settings: ConversionSettings) {
+  const selectedNodes = figma.currentPage.selection;
+  if (selectedNodes.length === 0) {
+    figma.notify("Please select at least one element.");
+    figma.ui.postMessage({ type: 'generated-html', payload: { html: '', assets: [] } });
+    return;
   }
 
-  private blendColors(fg: RgbaColor, bg: RgbColor): RgbColor {
-    const r = fg.r * fg.a + bg.r * (1 - fg.a);
-    const g = fg.g * fg.a + bg.g * (1 - fg.a);
-    const b = fg.b * fg.a + bg.b * (1 - fg.a);
-    return { r, g, b };
+  // criado antes das fontes: um cancel durante o carregamento não pode ser zerado depois
+  const monitor = createConversionMonitor();
+  let emailNodes: EmailNode[];
+  let result: ConversionResult;
+  try {
+    await collectAndLoadAllFonts(selectedNodes);
+    emailNodes = selectedNodes.map(node => sceneNodeToEmailNode(node));
+    const components = settings.templatePartials ? new Map<string, Promise<EmailNode>>() : null;
+    await Promise.all(emailNodes.map(node => loadNodeSemantics(node, components)));
+    const darkModeColors = settings.darkMode ? await resolveDarkModeColors(emailNodes) : {};
+    result = await convertEmailNodes(emailNodes, settings, sceneNodeImageExporter, darkModeColors, monitor);
+  } catch (e) {
+    notifyConversionFailed(e);
+    return;
   }
+  const { html, assets, imageReport, warnings, templates } = result;
+  lastConvertedNodeId = [...selectedNodes].sort((a, b) => a.y - b.y)[0].id;
 
-  private getEffectiveBackgroundColorForFills(fills: readonly Paint[], parentBgColor: RgbColor): { hex: string | null; rgb: RgbColor } {
-    if (!Array.isArray(fills) || fills.length === 0) return { hex: null, rgb: parentBgColor };
-    const visibleFill = fills.find((f) => f.visible !== false);
-    if (!visibleFill) return { hex: null, rgb: parentBgColor };
-
-    let color: RgbColor;
-    let opacity = 1.0;
-
-    if (visibleFill.type === "SOLID") {
-      color = visibleFill.color;
-      opacity = visibleFill.opacity ?? 1;
-    } else if (visibleFill.type.startsWith("GRADIENT")) {
-      color = visibleFill.gradientStops[0].color;
-      opacity = visibleFill.gradientStops[0].color.a ?? 1;
-    } else {
-      return { hex: null, rgb: parentBgColor };
+  figma.ui.postMessage({
+    type: 'generated-html',
+    payload: {
+      html,
+      assets,
+      imageReport,
+      warnings,
+      templates,
+      previewWidth: getPreviewWidth(emailNodes),
     }
+  });
+}
 
-    if (opacity >= 0.99) return { hex: figmaColorToHex(color), rgb: color };
-    const finalRgb = this.blendColors({ ...color, a: opacity }, parentBgColor);
-    return { hex: figmaColorToHex(finalRgb), rgb: finalRgb };
+// árvore da seleção como fixture JSON, pra reproduzir uma conversão fora do arquivo original
+async function exportSelectionFixture() {
+  const selectedNodes = figma.currentPage.selection;
+  if (selectedNodes.length === 0) {
+    figma.notify("Please select at least one element.");
+    return;
   }
+  const fixture = selectedNodes.map(node => sceneNodeToEmailNode(node));
+  // com os componentes principais, a fixture também reproduz os partials
+  const components = new Map<string, Promise<EmailNode>>();
+  await Promise.all(fixture.map(node => loadNodeSemantics(node, components)));
+  figma.ui.postMessage({ type: 'generated-html', payload: { html: JSON.stringify(fixture, null, 2), assets: [] } });
+}
 
-  private getEffectiveBackgroundColor(node: SceneNode, parentBgColor: RgbColor): { hex: string | null; rgb: RgbColor } {
-    const fills = 'fills' in node ? node.fills : [];
-    if (fills && fills !== figma.mixed) {
-      return this.getEffectiveBackgroundColorForFills(fills as readonly Paint[], parentBgColor);
-    }
-    return { hex: null, rgb: parentBgColor };
+async function processFixture(fixtureJson: string, settings: ConversionSettings) {
+  let emailNodes: EmailNode[];
+  try {
+    const parsed = JSON.parse(fixtureJson) as EmailNodeFixture | EmailNodeFixture[];
+    emailNodes = (Array.isArray(parsed) ? parsed : [parsed]).map(jsonFixtureToEmailNode);
+  } catch (e) {
+    figma.notify(`Invalid fixture: ${e instanceof Error ? e.message : String(e)}`, { error: true });
+    figma.ui.postMessage({ type: 'generated-html', payload: { html: '', assets: [] } });
+    return;
   }
 
-  private isImageLikeNode(node: SceneNode): boolean {
-    if ((node.type === "RECTANGLE" || node.type === "ELLIPSE") && "fills" in node && Array.isArray(node.fills) && node.fills.some((f: any) => f.type === "IMAGE")) return true;
-    if (["VECTOR", "LINE"].indexOf(node.type) !== -1) return true;
-    if ("children" in node && node.children.length > 0) {
-      return node.children.every(child => child.type !== "TEXT" && this.isImageLikeNode(child));
-    }
-    return false;
+  let result: ConversionResult;
+  try {
+    result = await convertEmailNodes(emailNodes, settings, fixtureImageExporter, {}, createConversionMonitor());
+  } catch (e) {
+    notifyConversionFailed(e);
+    return;
   }
+  const { html, assets, imageReport, warnings, templates } = result;
+  lastConvertedNodeId = null;
+  figma.ui.postMessage({ type: 'generated-html', payload: { html, assets, imageReport, warnings, templates, previewWidth: getPreviewWidth(emailNodes) } });
+}
 
-  private async renderNode(node: SceneNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<string> {
-    if (!node.visible) return "";
-    if ("opacity" in node && node.opacity === 0) return "";
-
-    if (this.isImageLikeNode(node)) return this.renderImage(node, parentWidth, imageExportMode);
-
-    switch (node.type) {
-      case "FRAME":
-      case "GROUP":
-      case "COMPONENT":
-      case "INSTANCE":
-        if (isBulletPoint(node)) return this.renderBulletPoint(node, parentBgColor);
-        return this.renderContainer(node, parentWidth, parentBgColor, false, imageExportMode);
-      case "RECTANGLE":
-      case "ELLIPSE":
-        return this.renderShape(node, parentBgColor);
-      case "TEXT":
-        return this.renderText(node, parentBgColor);
-      default:
-        return "";
-    }
+// clique num aviso do relatório: seleciona o node e centraliza na tela (pode estar em outra página)
+async function selectNodeById(nodeId: string) {
+  const node = await figma.getNodeByIdAsync(nodeId).catch(() => null);
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    figma.notify("Layer not found in this file.");
+    return;
   }
+  let page: BaseNode | null = node.parent;
+  while (page && page.type !== 'PAGE') page = page.parent;
+  if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page as PageNode);
+  figma.currentPage.selection = [node];
+  figma.viewport.scrollAndZoomIntoView([node]);
+}
 
-  private async getStackedRows(parentNode: FrameNode | GroupNode | ComponentNode | InstanceNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<string[]> {
-    const children = ("children" in parentNode ? [...parentNode.children] : []).filter(c => c.visible);
-    if ('layoutMode' in parentNode && parentNode.layoutMode !== 'VERTICAL') {
-      children.sort((a, b) => a.y - b.y);
-    }
-
-    if (children.length === 0) return [];
-
-    const paddingLeft = ('paddingLeft' in parentNode ? parentNode.paddingLeft : 0) as number;
-    const paddingRight = ('paddingRight' in parentNode ? parentNode.paddingRight : 0) as number;
-    const paddingTop = ('paddingTop' in parentNode ? parentNode.paddingTop : 0) as number;
-    const availableWidth = parentWidth - paddingLeft - paddingRight;
-
-    // --- otimização: desenrola filho único ---
-    if (children.length === 1) {
-      const child = children[0];
-      const verticalGap = Math.round(child.y - paddingTop);
-
-      if (paddingLeft === 0 && paddingRight === 0 && verticalGap <= 2) {
-        const childHtml = await this.renderNode(child, availableWidth, parentBgColor, imageExportMode);
-        return childHtml ? [`<tr><td>${childHtml}</td></tr>`] : [];
-      }
-    }
-
-    const colSpan = 1 + (paddingLeft > 0 ? 1 : 0) + (paddingRight > 0 ? 1 : 0);
-    const rows: string[] = [];
-    let lastBottomY = paddingTop;
-
-    for (let i = 0; i < children.length; i++) {
-      const child = children[i];
-      const verticalGap = Math.round(child.y - lastBottomY);
-      if (verticalGap > 2) {
-        rows.push(`<tr><td height="${verticalGap}" style="height:${verticalGap}px; font-size:${verticalGap}px; line-height:${verticalGap}px;" colspan="${colSpan}">&nbsp;</td></tr>`);
-      }
-
-      const leftSpacer = paddingLeft > 0 ? `<td class="gutter" width="${paddingLeft}" style="width: ${paddingLeft}px;">&nbsp;</td>` : "";
-      const rightSpacer = paddingRight > 0 ? `<td class="gutter" width="${paddingRight}" style="width: ${paddingRight}px;">&nbsp;</td>` : "";
-
-      if (child.type === 'TEXT') {
-        const textGroup: TextNode[] = [child];
-        let j = i + 1;
-        while (j < children.length && children[j].type === 'TEXT') {
-          textGroup.push(children[j] as TextNode);
-          j++;
-        }
-
-        const textRows: string[] = [];
-        let lastTextNodeInGroupBottomY = child.y;
-
-        for (const [index, textNode] of textGroup.entries()) {
-          const gapWithinGroup = Math.round(textNode.y - lastTextNodeInGroupBottomY);
-          if (index > 0 && gapWithinGroup > 2) {
-            textRows.push(`<tr><td height="${gapWithinGroup}" style="height:${gapWithinGroup}px; font-size:${gapWithinGroup}px; line-height:${gapWithinGroup}px;">&nbsp;</td></tr>`);
-          }
-          // --- lógica de texto atualizada ---
-          const { baseStyle, innerHtml } = this.processTextNode(textNode, parentBgColor);
-          if (innerHtml) {
-            const textAlign = (textNode.textAlignHorizontal || 'LEFT').toLowerCase();
-            const baseStyleCss = this.styleObjectToCssString(baseStyle);
-            const borderCss = this.getBorderStyles(textNode) || "";
-            let tdStyle = this.sanitizeStyles(this.cleanZeroValueStyles(`text-align:${textAlign};${baseStyleCss}${borderCss}`));
-            if (tdStyle && !tdStyle.endsWith(';')) tdStyle += ';';
-            textRows.push(`<tr><td align="${textAlign}" ${tdStyle ? `style="${tdStyle}"` : ''}>${innerHtml}</td></tr>`);
-          }
-          lastTextNodeInGroupBottomY = textNode.y + textNode.height;
-        }
-
-        if (paddingLeft === 0 && paddingRight === 0) {
-          rows.push(...textRows);
-        } else {
-          const groupHtml = `<table width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation">${textRows.join('')}</table>`;
-          rows.push(`<tr>${leftSpacer}<td>${groupHtml}</td>${rightSpacer}</tr>`);
-        }
-
-        i = j - 1;
-        lastBottomY = lastTextNodeInGroupBottomY;
-      } else {
-        const childHtml = await this.renderNode(child, availableWidth, parentBgColor, imageExportMode);
-        if (childHtml) {
-          // se for imagem, aplica a largura no TD pra garantir compatibilidade
-          let tdAttributes = "";
-          if (this.isImageLikeNode(child)) {
-            const imgWidth = Math.min(Math.round(child.width), availableWidth);
-            tdAttributes = `width="${imgWidth}" style="width: ${imgWidth}px;"`;
-            // se imagem for centralizada no pai, alinhamos o TD
-            if ('layoutMode' in parentNode && (parentNode.counterAxisAlignItems === 'CENTER' || (parentNode as any).primaryAxisAlignItems === 'CENTER')) { // primaryAxisAlignItems check is risky if vertical but usually counterAxis for stack
-              // For Vertical Stack, Counter Axis = Horizontal Alignment
-              if ('layoutMode' in parentNode && parentNode.layoutMode === 'VERTICAL' && parentNode.counterAxisAlignItems === 'CENTER') {
-                tdAttributes += ` align="center"`;
-              }
-            }
-          }
-          rows.push(`<tr>${leftSpacer}<td ${tdAttributes}>${childHtml}</td>${rightSpacer}</tr>`);
-        }
-        lastBottomY = child.y + child.height;
-      }
-    }
-    return rows;
+// --- exportação em lote ---
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
   }
+  return `${("0000000" + hash.toString(16)).slice(-8)}-${text.length}`;
+}
 
-  private async renderStackedChildren(parentNode: FrameNode | GroupNode | ComponentNode | InstanceNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<string> {
-    const rows = await this.getStackedRows(parentNode, parentWidth, parentBgColor, imageExportMode);
-    if (rows.length === 0) return "";
-    return `<table width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation">${rows.join('')}</table>`;
+// clientStorage é por usuário, não por arquivo: a chave leva o id do documento, senão frames de arquivos diferentes com o mesmo id dividem o cache
+const BATCH_CACHE_PREFIX = 'batchCache:';
+const DOCUMENT_ID_KEY = 'documentId';
+// a cota do clientStorage é de 5MB: frame com mais imagens que isso é convertido sempre, pra não expulsar o resto do cache
+const BATCH_CACHE_MAX_ASSET_BYTES = 1024 * 1024;
+
+// id do arquivo gerado uma vez e salvo no documento (figma.fileKey só existe em plugin privado)
+function getDocumentId(): string {
+  let documentId = figma.root.getPluginData(DOCUMENT_ID_KEY);
+  if (!documentId) {
+    documentId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+    figma.root.setPluginData(DOCUMENT_ID_KEY, documentId);
   }
+  return documentId;
+}
 
-  private async renderContainer(node: FrameNode | GroupNode | ComponentNode | InstanceNode, parentWidth: number, parentBgColor: RgbColor, isRoot: boolean, imageExportMode: ImageExportMode): Promise<string> {
-    const { hex: bgColorHex, rgb: effectiveBgRgb } = this.getEffectiveBackgroundColor(node, parentBgColor);
-    const children = "children" in node ? node.children.filter(c => c.visible) : [];
-    if (children.length === 0 && !bgColorHex && !this.getBorderStyles(node)) return "";
-
-    const layoutMode = 'layoutMode' in node ? node.layoutMode : 'NONE';
-    const paddingTop = 'paddingTop' in node ? Math.round((node as any).paddingTop as number) : 0;
-    const paddingBottom = 'paddingBottom' in node ? Math.round((node as any).paddingBottom as number) : 0;
-
-    let tableStyles = this.sanitizeStyles(this.cleanZeroValueStyles([bgColorHex ? `background-color:${bgColorHex}` : null, this.getBorderStyles(node)].filter(Boolean).join(";")));
-    if (tableStyles) tableStyles += ';';
-
-    const width = isRoot ? parentWidth : Math.min(node.width, parentWidth);
-    let tableAttributes: string;
-
-    // lógica de largura: literal vs padrão (100%)
-    if (this.useLiteralWidth) {
-      tableAttributes = `width="${width}" ${tableStyles ? `style="${tableStyles}"` : ''}`;
-    } else {
-      tableAttributes = `width="100%" ${tableStyles ? `style="width: 100%; ${tableStyles}"` : (tableStyles ? `style="${tableStyles}"` : '')}`;
-    }
-
-    if (bgColorHex) tableAttributes += ` bgcolor="${bgColorHex}"`;
-
-    // --- otimização: junta wrapper e conteudo em layout vertical ---
-    if (layoutMode !== "HORIZONTAL") { // empilhado
-      if (children.length === 1 && !bgColorHex && !this.getBorderStyles(node)) {
-        const paddingLeft = ('paddingLeft' in node ? node.paddingLeft : 0) as number;
-        const paddingRight = ('paddingRight' in node ? node.paddingRight : 0) as number;
-        const childGap = children[0].y - paddingTop;
-
-        if (paddingLeft === 0 && paddingRight === 0 && childGap <= 2 && paddingTop === 0 && paddingBottom === 0 && !isRoot) {
-          return this.renderNode(children[0], parentWidth, parentBgColor, imageExportMode);
-        }
-      }
-
-      const rows = await this.getStackedRows(node, parentWidth, effectiveBgRgb, imageExportMode);
-      if (rows.length === 0 && !bgColorHex && !this.getBorderStyles(node)) return "";
-
-      const paddingLeft = ('paddingLeft' in node ? node.paddingLeft : 0) as number;
-      const paddingRight = ('paddingRight' in node ? node.paddingRight : 0) as number;
-      const colSpan = 1 + (paddingLeft > 0 ? 1 : 0) + (paddingRight > 0 ? 1 : 0);
-
-      // adiciona linhas de padding no conjunto principal
-      const paddingTopHtml = paddingTop > 0 ? `<tr><td height="${paddingTop}" style="font-size:${paddingTop}px; line-height:${paddingTop}px;" colspan="${colSpan}">&nbsp;</td></tr>` : "";
-      const paddingBottomHtml = paddingBottom > 0 ? `<tr><td height="${paddingBottom}" style="font-size:${paddingBottom}px; line-height:${paddingBottom}px;" colspan="${colSpan}">&nbsp;</td></tr>` : "";
-
-      return `<table ${tableAttributes} cellpadding="0" cellspacing="0" border="0" role="presentation">${paddingTopHtml}${rows.join('')}${paddingBottomHtml}</table>`;
-    }
-
-    // --- layout horizontal ---
-    const frameNode = node as FrameNode;
-    const horizontalChildren = (frameNode.children || []).filter((c) => c.visible !== false);
-    const itemSpacing = typeof frameNode.itemSpacing === 'number' ? Math.round(frameNode.itemSpacing) : 0;
-    const paddingLeft = ('paddingLeft' in frameNode ? frameNode.paddingLeft : 0) as number;
-    const paddingRight = ('paddingRight' in frameNode ? frameNode.paddingRight : 0) as number;
-
-    const spacerCount = horizontalChildren.length > 1 ? horizontalChildren.length - 1 : 0;
-    const colSpan = horizontalChildren.length + spacerCount + (paddingLeft > 0 ? 1 : 0) + (paddingRight > 0 ? 1 : 0);
+function isBatchFrame(node: SceneNode): boolean {
+  return node.visible && (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE');
+}
 
-    const cells: string[] = [];
-    if (paddingLeft > 0) {
-      cells.push(`<td width="${paddingLeft}" style="width: ${paddingLeft}px;">&nbsp;</td>`);
+// frames de e-mail: filhos diretos da página e das seções; o filtro vale pro nome do frame ou da seção
+function findBatchFrames(nameFilter: string): SceneNode[] {
+  const filter = nameFilter.trim().toLowerCase();
+  const matches = (name: string) => !filter || name.toLowerCase().indexOf(filter) !== -1;
+  const frames: SceneNode[] = [];
+  for (const node of figma.currentPage.children) {
+    if (node.type === 'SECTION') {
+      const sectionMatches = matches(node.name);
+      node.children.forEach(child => {
+        if (isBatchFrame(child) && (sectionMatches || matches(child.name))) frames.push(child);
+      });
+    } else if (isBatchFrame(node) && matches(node.name)) {
+      frames.push(node);
     }
+  }
+  return frames;
+}
 
-    for (const [index, child] of horizontalChildren.entries()) {
-      const childHtml = await this.renderNode(child, child.width, effectiveBgRgb, imageExportMode);
-      let valign = "top";
-      if (frameNode.counterAxisAlignItems === 'CENTER') valign = 'middle';
-      if (frameNode.counterAxisAlignItems === 'MAX') valign = 'bottom';
-
-      let tdAttrs = `valign="${valign}"`;
-      if (this.isImageLikeNode(child)) {
-        const imgWidth = Math.round(child.width);
-        tdAttrs += ` width="${imgWidth}" style="width: ${imgWidth}px;"`;
-      }
-
-      cells.push(`<td ${tdAttrs}>${childHtml}</td>`);
-
-      if (index < horizontalChildren.length - 1 && itemSpacing > 0) {
-        cells.push(`<td width="${itemSpacing}" style="width: ${itemSpacing}px;">&nbsp;</td>`);
-      }
-    }
+// o que o EmailNode não guarda mas muda as imagens exportadas: geometria dos vetores, rotação, efeitos, blend e máscara
+function getBatchRenderData(node: SceneNode): unknown[] {
+  const data: unknown[] = [];
+  const walk = (current: SceneNode) => {
+    data.push([
+      current.id,
+      'rotation' in current ? current.rotation : 0,
+      'blendMode' in current ? current.blendMode : null,
+      'effects' in current ? current.effects : null,
+      'isMask' in current ? current.isMask : false,
+      // texto fica de fora: o contorno das letras é pesado e os segmentos já estão no EmailNode
+      current.type !== 'TEXT' && 'fillGeometry' in current ? current.fillGeometry : null,
+      current.type !== 'TEXT' && 'strokeGeometry' in current ? current.strokeGeometry : null,
+    ]);
+    if ('children' in current) current.children.forEach(walk);
+  };
+  walk(node);
+  return data;
+}
 
-    if (paddingRight > 0) {
-      cells.push(`<td width="${paddingRight}" style="width: ${paddingRight}px;">&nbsp;</td>`);
+// false = não coube nem depois de limpar: o frame é convertido de novo na próxima exportação
+async function saveBatchCache(key: string, entry: BatchCacheEntry, batchKeys: string[]): Promise<boolean> {
+  try {
+    await figma.clientStorage.setAsync(key, entry);
+    return true;
+  } catch (e) {
+    // cota do clientStorage cheia: limpa o cache dos frames fora deste lote e tenta de novo
+    const keys = await figma.clientStorage.keysAsync();
+    for (const staleKey of keys) {
+      if (staleKey.indexOf(BATCH_CACHE_PREFIX) === 0 && batchKeys.indexOf(staleKey) === -1) await figma.clientStorage.deleteAsync(staleKey);
     }
-
-    const paddingTopHtml = paddingTop > 0 ? `<tr><td height="${paddingTop}" style="font-size:${paddingTop}px; line-height:${paddingTop}px;" colspan="${colSpan}">&nbsp;</td></tr>` : "";
-    const paddingBottomHtml = paddingBottom > 0 ? `<tr><td height="${paddingBottom}" style="font-size:${paddingBottom}px; line-height:${paddingBottom}px;" colspan="${colSpan}">&nbsp;</td></tr>` : "";
-
-    return `<table ${tableAttributes} cellpadding="0" cellspacing="0" border="0" role="presentation">${paddingTopHtml}<tr>${cells.join('')}</tr>${paddingBottomHtml}</table>`;
+    return figma.clientStorage.setAsync(key, entry).then(() => true, () => false);
   }
+}
 
-  private async renderText(node: TextNode, parentBgColor: RgbColor): Promise<string> {
-    if (!node.characters?.trim()) return "";
-
-    const { baseStyle, innerHtml } = this.processTextNode(node, parentBgColor);
-    if (!innerHtml) return "";
-
-    const textAlign = (node.textAlignHorizontal || 'LEFT').toLowerCase();
-    const baseStyleCss = this.styleObjectToCssString(baseStyle);
-    const borderCss = this.getBorderStyles(node) || "";
-
-    let tdStyle = this.sanitizeStyles(this.cleanZeroValueStyles(`text-align:${textAlign};${baseStyleCss}${borderCss}`));
-    if (tdStyle && !tdStyle.endsWith(';')) tdStyle += ';';
-
-    return `<table cellpadding="0" cellspacing="0" border="0" width="100%"><tr><td align="${textAlign}" ${tdStyle ? `style="${tdStyle}"` : ''}>${innerHtml}</td></tr></table>`;
+async function processBatchExport(settings: ConversionSettings, nameFilter: string) {
+  const frames = findBatchFrames(nameFilter);
+  if (frames.length === 0) {
+    figma.notify(nameFilter.trim() ? `No frames on this page match "${nameFilter.trim()}".` : "No frames on this page.");
+    figma.ui.postMessage({ type: 'batch-export-result', payload: null });
+    return;
   }
 
-  private async renderBulletPoint(node: FrameNode, parentBgColor: RgbColor): Promise<string> {
-    const bulletNode = node.children[0] as TextNode;
-    const textNode = node.children[1] as TextNode;
-    const itemSpacing = typeof node.itemSpacing === 'number' ? node.itemSpacing : 8;
-
-    const { baseStyle: bulletBaseStyle, innerHtml: bulletHtml } = this.processTextNode(bulletNode, parentBgColor);
-    let bulletTdStyle = this.sanitizeStyles(`width:1%;${this.styleObjectToCssString(bulletBaseStyle)}`);
-    if (bulletTdStyle && !bulletTdStyle.endsWith(';')) bulletTdStyle += ';';
-
-    const { baseStyle: textBaseStyle, innerHtml: textHtml } = this.processTextNode(textNode, parentBgColor);
-    let textTdStyle = this.sanitizeStyles(this.styleObjectToCssString(textBaseStyle));
-    if (textTdStyle && !textTdStyle.endsWith(';')) textTdStyle += ';';
-
-    return `<table width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation"><tr><td ${bulletTdStyle ? `style="${bulletTdStyle}"` : ''} valign="top">${bulletHtml}</td><td width="${itemSpacing}" style="width: ${itemSpacing}px;">&nbsp;</td><td ${textTdStyle ? `style="${textTdStyle}"` : ''} valign="top">${textHtml}</td></tr></table>`;
+  // título e preheader de cada e-mail vem do próprio frame
+  const batchSettings: ConversionSettings = { ...settings, documentTitle: '', preheaderText: '' };
+  const cachePrefix = `${BATCH_CACHE_PREFIX}${getDocumentId()}:`;
+  const batchKeys = frames.map(frame => cachePrefix + frame.id);
+  const entries: BatchExportEntry[] = [];
+  const manifest: BatchManifestEntry[] = [];
+  const folders: string[] = [];
+  const monitor = createConversionMonitor();
+  // componente principal usado em vários frames é convertido uma vez só
+  const components = batchSettings.templatePartials ? new Map<string, Promise<EmailNode>>() : null;
+  let uncachedCount = 0;
+
+  try {
+    for (const [index, frame] of frames.entries()) {
+      if (monitor.isCancelled()) throw new ConversionCancelledError();
+      figma.ui.postMessage({ type: 'batch-progress', payload: { done: index, total: frames.length } });
+      await collectAndLoadAllFonts([frame]);
+
+      // frame dentro de seção também é a raiz do e-mail
+      const emailNode = { ...sceneNodeToEmailNode(frame), isTopLevel: true };
+      await loadNodeSemantics(emailNode, components);
+      const darkModeColors = batchSettings.darkMode ? await resolveDarkModeColors([emailNode]) : {};
+      const fingerprint = hashString(JSON.stringify({ version: CONVERTER_VERSION, emailNode, renderData: getBatchRenderData(frame), batchSettings, darkModeColors }));
+      const cacheKey = cachePrefix + frame.id;
+      const cached = await figma.clientStorage.getAsync(cacheKey).catch(() => null) as BatchCacheEntry | null;
+      const isCached = !!cached && cached.fingerprint === fingerprint;
+      const result = isCached ? cached.result : await convertEmailNodes([emailNode], batchSettings, sceneNodeImageExporter, darkModeColors, monitor);
+      const assetBytes = result.assets.reduce((total, asset) => total + asset.bytes.length, 0);
+      if (!isCached && assetBytes <= BATCH_CACHE_MAX_ASSET_BYTES && !(await saveBatchCache(cacheKey, { fingerprint, result }, batchKeys))) uncachedCount++;
+
+      const baseFolder = slugify(frame.name);
+      let folder = baseFolder;
+      for (let suffix = 2; folders.indexOf(folder) !== -1; suffix++) folder = `${baseFolder}-${suffix}`;
+      folders.push(folder);
+
+      // com partials, o e-mail é um template da engine (email.hbs / email.liquid)
+      const templates = result.templates ?? null;
+      const fileName = templates ? `email${templates.extension}` : settings.outputFormat === 'mjml' ? 'email.mjml' : 'email.html';
+      entries.push({ folder, fileName, html: result.html, assets: result.assets, templates });
+      manifest.push({
+        name: frame.name,
+        nodeId: frame.id,
+        width: Math.round(frame.width),
+        height: Math.round(frame.height),
+        file: `${folder}/${fileName}`,
+        assets: result.assets.map(asset => `${folder}/images/${asset.name}`),
+        partials: templates ? templates.partials.map(partial => `${folder}/partials/${partial.name}${templates.extension}`) : [],
+        cached: isCached,
+        warnings: result.warnings.length,
+      });
+    }
+  } catch (e) {
+    // cancelado ou com erro: nada do lote vai pro zip
+    notifyConversionFailed(e);
+    figma.ui.postMessage({ type: 'batch-export-result', payload: null });
+    return;
   }
 
-  private renderShape(node: SceneNode, parentBgColor: RgbColor): string {
-    const { width = 0, height = 0 } = node;
-    if (width < 1 || height < 1) return "";
-    const { hex: bgColorHex } = this.getEffectiveBackgroundColor(node, parentBgColor);
-    const finalHeight = Math.round(height);
-    let cellStyles = this.sanitizeStyles(this.cleanZeroValueStyles([bgColorHex ? `background-color:${bgColorHex}` : null, `height:${finalHeight}px;`, `font-size:1px;`, `line-height:1px;`, this.getBorderStyles(node)].filter(Boolean).join(";")));
-    if (cellStyles && !cellStyles.endsWith(';')) cellStyles += ';';
-    return `<table width="100%" height="${finalHeight}" cellpadding="0" cellspacing="0" border="0"><tr><td ${bgColorHex ? `bgcolor="${bgColorHex}"` : ''} ${cellStyles ? `style="${cellStyles}"` : ''}>&nbsp;</td></tr></table>`;
+  const cachedCount = manifest.filter(entry => entry.cached).length;
+  const summary = `Exported ${frames.length} frame(s)${cachedCount > 0 ? `, ${cachedCount} unchanged from cache` : ''}.`;
+  // cache cheio não impede a exportação, mas a próxima vai converter esses frames de novo
+  if (uncachedCount > 0) {
+    figma.notify(`${summary} Cache storage is full: ${uncachedCount} frame(s) not cached.`, { error: true });
+  } else {
+    figma.notify(summary);
   }
+  figma.ui.postMessage({ type: 'batch-export-result', payload: { entries, manifest } });
+}
 
-  private async renderImage(node: SceneNode, parentWidth: number, mode: ImageExportMode): Promise<string> {
-    const { width, height } = node;
-    if (width < 1 || height < 1) return "";
-    const finalWidth = Math.min(Math.round(width), parentWidth);
-    const altText = node.name || 'Image';
-
-    if (mode === 'placeholder') {
-      const url = `https://placehold.co/${finalWidth}x${Math.round(height)}/EFEFEF/7F7F7F?text=${finalWidth}x${Math.round(height)}`;
-      return `<img src="${url}" width="${finalWidth}" alt="${altText}" style="display: block; border: 0; max-width: ${finalWidth}px; height: auto;" />`;
-    }
-
-    try {
-      const exportSettings: ExportSettingsImage = { format: 'PNG', constraint: { type: 'WIDTH', value: Math.round(width * 2) } };
-      const imageBytes = await node.exportAsync(exportSettings);
-
-      if (mode === 'base64') {
-        const base64String = figma.base64Encode(imageBytes);
-        return `<img src="data:image/png;base64,${base64String}" width="${finalWidth}" alt="${altText}" style="display: block; border: 0; max-width: ${finalWidth}px; height: auto;" />`;
-      }
-    } catch (e) {
-      return `<p style="color:red;">Error exporting image: ${altText}</p>`;
-    }
-    return "";
+// PNG 1x do frame convertido, pra comparar com o preview do html
+async function exportDesignPreview() {
+  const node = lastConvertedNodeId ? await figma.getNodeByIdAsync(lastConvertedNodeId).catch(() => null) : null;
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    figma.notify("Convert a selection first; fixtures have no design to compare.");
+    figma.ui.postMessage({ type: 'design-preview', payload: null });
+    return;
   }
-
-  public async parse(nodes: readonly SceneNode[], imageExportMode: ImageExportMode): Promise<string> {
-    if (nodes.length === 0) return "";
-    const rootBgColor = { r: 1, g: 1, b: 1 };
-
-    if (nodes.length === 1) {
-      const node = nodes[0];
-      const isRootSelection = (node.parent?.type === 'PAGE');
-      if (node.type === "FRAME" || node.type === "COMPONENT" || node.type === "INSTANCE") {
-        return this.renderContainer(node, node.width, rootBgColor, isRootSelection, imageExportMode);
-      } else {
-        return this.renderNode(node, node.width, rootBgColor, imageExportMode);
-      }
-    }
-
-    const sortedNodes = [...nodes].sort((a, b) => a.y - b.y);
-    const rows: string[] = [];
-    let lastBottomY = sortedNodes[0].y;
-
-    for (const [i, node] of sortedNodes.entries()) {
-      if (i > 0) {
-        const gap = Math.round(node.y - lastBottomY);
-        if (gap > 2) rows.push(`<tr><td height="${gap}" style="height:${gap}px; font-size:${gap}px; line-height:${gap}px;">&nbsp;</td></tr>`);
-      }
-
-      const nodeHtml = await this.renderNode(node, node.width, rootBgColor, imageExportMode);
-
-      if (nodeHtml.trim()) {
-        rows.push(`<tr><td>${nodeHtml}</td></tr>`);
-      }
-      if (node.visible) {
-        lastBottomY = node.y + node.height;
-      }
-    }
-
-    return rows.join('');
+  let bytes: Uint8Array;
+  try {
+    bytes = await node.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: 1 } });
+  } catch (e) {
+    // sem resposta a UI fica esperando o preview pra sempre
+    figma.notify(`Design preview failed: ${e instanceof Error ? e.message : String(e)}`, { error: true });
+    figma.ui.postMessage({ type: 'design-preview', payload: null });
+    return;
   }
+  figma.ui.postMessage({ type: 'design-preview', payload: { bytes, width: Math.round(node.width), height: Math.round(node.height) } });
 }
 
-function isBulletPoint(node: SceneNode): node is FrameNode {
-  if (node.type !== 'FRAME' || !node.visible || node.layoutMode !== 'HORIZONTAL' || !("children" in node) || node.children.length !== 2) return false;
-  const [firstChild, secondChild] = node.children;
-  if (firstChild.type !== 'TEXT' || secondChild.type !== 'TEXT') return false;
-  const bulletChar = firstChild.characters.trim();
-  return bulletChar.length === 1 && bulletChar in bulletCharacterMap;
+// inspector da UI: overrides da layer selecionada (só com uma layer selecionada)
+function postSelectedNodeOverrides() {
+  const selection = figma.currentPage.selection;
+  const node = selection.length === 1 ? selection[0] : null;
+  figma.ui.postMessage({
+    type: 'node-overrides',
+    payload: node ? { nodeId: node.id, nodeName: node.name, overrides: loadNodeOverrides(node) } : null,
+  });
 }
 
-figma.showUI(__html__, { width: 400, height: 480 });
+function postPinnedProfile() {
+  const selection = figma.currentPage.selection;
+  figma.ui.postMessage({ type: 'pinned-profile', payload: { profileName: selection.length > 0 ? getPinnedProfileName(selection[0]) : '' } });
+}
 
-async function processSelection(imageExportMode: ImageExportMode, useLiteralWidth: boolean) {
+// fixa (ou solta, com nome vazio) o perfil padrão nos nodes selecionados
+function pinExportProfile(profileName: string) {
   const selectedNodes = figma.currentPage.selection;
   if (selectedNodes.length === 0) {
     figma.notify("Please select at least one element.");
-    figma.ui.postMessage({ type: 'generated-html', payload: { html: '', assets: [] } });
     return;
   }
+  selectedNodes.forEach(node => node.setPluginData(PINNED_PROFILE_KEY, profileName));
+  figma.notify(profileName ? `Pinned profile "${profileName}" to ${selectedNodes.length} layer(s).` : `Unpinned profile from ${selectedNodes.length} layer(s).`);
+}
 
-  await collectAndLoadAllFonts(selectedNodes);
-
-  const parser = new FigmaPluginParser(useLiteralWidth);
-  const html = await parser.parse(selectedNodes, imageExportMode);
-
-  figma.ui.postMessage({
-    type: 'generated-html',
-    payload: {
-      html,
-      assets: [],
-    }
-  });
-};
+async function updateNodeOverrides(nodeId: string, overrides: NodeOverrides) {
+  const node = await figma.getNodeByIdAsync(nodeId).catch(() => null);
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    figma.notify("Layer not found in this file.");
+    return;
+  }
+  saveNodeOverrides(node, overrides);
+  figma.notify(`Export overrides saved on "${node.name}".`);
+  postSelectedNodeOverrides();
+}
 
 figma.ui.onmessage = async (msg: { type: string, payload: any }) => {
   if (msg.type === 'generate-html-for-selection') {
-    await processSelection(msg.payload.imageExportMode, msg.payload.useLiteralWidth);
+    await processSelection(msg.payload as ConversionSettings);
+  } else if (msg.type === 'reencoded-jpeg') {
+    const resolve = pendingJpegReencodes.get(msg.payload.id);
+    pendingJpegReencodes.delete(msg.payload.id);
+    if (resolve) resolve(msg.payload.bytes);
+  } else if (msg.type === 'export-selection-fixture') {
+    await exportSelectionFixture();
+  } else if (msg.type === 'generate-html-for-fixture') {
+    await processFixture(msg.payload.fixtureJson, msg.payload.settings as ConversionSettings);
+  } else if (msg.type === 'save-font-mappings') {
+    saveFontMappings(msg.payload.fontMappings as FontMapping[]);
+  } else if (msg.type === 'collect-selection-fonts') {
+    const families = collectFontFamilies(figma.currentPage.selection);
+    const fontMappings = Array.from(families.keys()).sort().map(family => getDefaultFontMapping(family, families.get(family)));
+    if (fontMappings.length === 0) figma.notify("No text layers in the selection.");
+    figma.ui.postMessage({ type: 'selection-fonts', payload: { fontMappings } });
+  } else if (msg.type === 'select-node') {
+    await selectNodeById(msg.payload.nodeId);
+  } else if (msg.type === 'save-node-overrides') {
+    await updateNodeOverrides(msg.payload.nodeId, msg.payload.overrides as NodeOverrides);
+  } else if (msg.type === 'save-settings') {
+    await figma.clientStorage.setAsync(SETTINGS_STORAGE_KEY, msg.payload.settings);
+  } else if (msg.type === 'save-export-profiles') {
+    saveExportProfiles(msg.payload.profiles as ExportProfile[]);
+  } else if (msg.type === 'pin-export-profile') {
+    pinExportProfile(msg.payload.profileName);
+  } else if (msg.type === 'export-design-preview') {
+    await exportDesignPreview();
+  } else if (msg.type === 'cancel-conversion') {
+    conversionCancelled = true;
+  } else if (msg.type === 'batch-export') {
+    await processBatchExport(msg.payload.settings as ConversionSettings, msg.payload.nameFilter || '');
   }
-};
\ No newline at end of file
+};
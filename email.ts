@@ -0,0 +1,3393 @@
+// modelo EmailNode, adapters e parser: nada roda no topo do arquivo, então dá pra carregar fora do figma (testes)
+/* exported CONVERTER_VERSION, jsonFixtureToEmailNode, fixtureImageExporter, convertEmailNodes */
+const bulletCharacterMap: { [key: string]: string } = {
+  "•": "&#8226;",
+  "*": "&#8226;",
+  "-": "&#8211;",
+};
+
+type RgbColor = { r: number; g: number; b: number };
+type RgbaColor = { r: number; g: number; b: number; a: number };
+type ImageExportMode = 'placeholder' | 'base64' | 'hosted';
+type ImageFormatSetting = 'auto' | 'PNG' | 'JPG';
+type OutputMode = 'fragment' | 'document';
+type OutputFormat = 'html' | 'mjml';
+type EspProfile = 'none' | 'mailchimp' | 'ampscript' | 'liquid' | 'hubl' | 'handlebars';
+type ResponsiveMode = 'off' | 'stack' | 'hybrid';
+type HtmlFormat = 'pretty' | 'minified';
+// texto vira h1–h6/p: pelo nome do estilo de texto, ou pelo estilo e pelo tamanho (auto)
+type HeadingMode = 'off' | 'styles' | 'auto';
+type TextDirection = 'auto' | 'ltr' | 'rtl'; // auto = rtl quando o idioma é escrito da direita pra esquerda
+
+type ConversionSettings = {
+  imageExportMode: ImageExportMode;
+  assetBaseUrl: string;
+  imageFormat: ImageFormatSetting;
+  imageScale: number;
+  jpgQuality: number;
+  imageByteBudgetKb: number;
+  useLiteralWidth: boolean;
+  buttonNamePattern: string;
+  responsiveMode: ResponsiveMode;
+  fontMappings: FontMapping[];
+  embedWebFonts: boolean;
+  darkMode: boolean;
+  espProfile: EspProfile;
+  outputFormat: OutputFormat;
+  outputMode: OutputMode;
+  htmlFormat: HtmlFormat;
+  extractStyleClasses: boolean; // declarações repetidas viram classes no <style>
+  headingMode: HeadingMode;
+  lang: string; // código do idioma (pt-BR, ar...); vazio = sem lang
+  textDirection: TextDirection;
+  templatePartials: boolean; // instâncias viram includes de partials (Handlebars ou Liquid)
+  documentTitle: string;
+  preheaderText: string;
+};
+
+type ParserOptions = {
+  useLiteralWidth: boolean;
+  assetBaseUrl: string;
+  imageFormat: ImageFormatSetting;
+  imageScale: number;
+  jpgQuality: number;
+  imageByteBudgetKb: number;
+  buttonNamePattern: string;
+  responsiveMode: ResponsiveMode;
+  fontMappings: FontMapping[];
+  embedWebFonts: boolean;
+  darkModeColors: DarkModeColors;
+  espProfile: EspProfile;
+  headingMode: HeadingMode;
+  rtl: boolean; // espelha linhas e alinhamentos
+  templatePartials: boolean;
+};
+
+// família do Figma -> stack css; salvo no documento (pluginData) e editável na UI
+type FontMapping = {
+  family: string;
+  stack: string;
+  webFontUrl: string; // css do Google Fonts (<link>) ou arquivo de fonte (@font-face); vazio = não embute
+};
+
+type FontCategory = 'sans-serif' | 'serif' | 'monospace' | 'handwriting';
+
+// id da variável de cor -> valor no modo escuro da coleção (resolvido antes, via API de variáveis)
+type DarkModeColors = { [variableId: string]: RGBA };
+type DarkModeProperty = 'color' | 'background-color' | 'border-color';
+
+type NodeLink = { url: string; openInNewTab: boolean };
+
+// ajustes de exportação por layer, salvos no pluginData do node (vão junto com o arquivo); campo ausente = comportamento normal
+type NodeOverrides = {
+  link?: string; // substitui o link do protótipo
+  alt?: string; // substitui a descrição do componente e o nome da layer como alt
+  decorative?: boolean; // imagem decorativa: alt vazio
+  skip?: boolean; // layer fica fora do e-mail
+  rasterize?: boolean; // layer inteira vira uma imagem
+  literalWidth?: boolean; // Use Literal Width só nessa layer
+  rawHtml?: string; // html colado no lugar da layer
+};
+
+// --- modelo de node serializável, independente da API do Figma ---
+// propriedade de componente: na instância o valor escolhido, no componente o valor padrão;
+// INSTANCE_SWAP guarda o id do componente
+type EmailComponentProperty = { type: ComponentPropertyType; value: string | boolean };
+
+type EmailNodeType = 'FRAME' | 'GROUP' | 'COMPONENT' | 'INSTANCE' | 'RECTANGLE' | 'ELLIPSE' | 'VECTOR' | 'LINE' | 'TEXT' | 'OTHER';
+
+type EmailTextSegment = {
+  characters: string;
+  fontName: FontName;
+  fontSize: number;
+  fills: Paint[];
+  lineHeight: LineHeight;
+  textDecoration: TextDecoration;
+  hyperlink: HyperlinkTarget | null;
+  // opcionais: fixtures antigas não tem
+  letterSpacing?: LetterSpacing;
+  textCase?: TextCase;
+  paragraphSpacing?: number;
+  paragraphIndent?: number;
+};
+
+type EmailNode = {
+  id: string;
+  name: string;
+  type: EmailNodeType;
+  visible: boolean;
+  opacity: number;
+  // posição relativa ao node pai (filhos de GROUP já vem corrigidos)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isTopLevel: boolean;
+  fills: Paint[] | null; // null = mixed
+  strokes: Paint[];
+  strokeWeight: number | null; // null = mixed
+  // por lado; sem valor próprio herdam o strokeWeight
+  strokeTopWeight: number;
+  strokeRightWeight: number;
+  strokeBottomWeight: number;
+  strokeLeftWeight: number;
+  strokeAlign: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  dashPattern: number[];
+  cornerRadius: number;
+  // por canto; sem valor próprio herdam o cornerRadius
+  topLeftRadius: number;
+  topRightRadius: number;
+  bottomRightRadius: number;
+  bottomLeftRadius: number;
+  layoutMode: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  paddingTop: number;
+  paddingRight: number;
+  paddingBottom: number;
+  paddingLeft: number;
+  itemSpacing: number;
+  counterAxisSpacing: number; // espaço entre as linhas quando quebra (layoutWrap)
+  layoutWrap: 'NO_WRAP' | 'WRAP';
+  primaryAxisAlignItems: 'MIN' | 'MAX' | 'CENTER' | 'SPACE_BETWEEN' | 'SPACE_EVENLY' | 'SPACE_AROUND';
+  counterAxisAlignItems: 'MIN' | 'MAX' | 'CENTER' | 'BASELINE';
+  // dimensionamento como filho de auto layout
+  layoutSizingHorizontal: 'FIXED' | 'HUG' | 'FILL';
+  layoutGrow: number;
+  reactionLink: NodeLink | null;
+  overrides: NodeOverrides;
+  effects: Effect[]; // sombra/blur não vão pro e-mail; ficam só pro relatório
+  characters: string;
+  textAlignHorizontal: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+  textAlignVertical: 'TOP' | 'CENTER' | 'BOTTOM';
+  textStyleName: string; // estilo de texto do Figma; vazio = sem estilo ou misto
+  description: string; // descrição do componente (na instância, a do componente principal)
+  componentProperties: { [key: string]: EmailComponentProperty };
+  propertyReferences: { [field in 'visible' | 'characters' | 'mainComponent']?: string }; // campo ligado a uma propriedade do componente
+  mainComponent: EmailNode | null; // só na instância, e só quando os partials pedem
+  segments: EmailTextSegment[];
+  children: EmailNode[];
+};
+
+// fixture JSON: só `type` é obrigatório, o resto cai nos defaults
+type EmailNodeFixture = Partial<Omit<EmailNode, 'children' | 'mainComponent'>> & {
+  type: EmailNodeType;
+  children?: EmailNodeFixture[];
+  mainComponent?: EmailNodeFixture | null;
+};
+
+type NodeImageExporter = {
+  exportImage(nodeId: string, settings: ExportSettingsImage): Promise<Uint8Array>;
+  // a API do Figma não tem qualidade de JPG; quem souber reencodar (a UI, via canvas) implementa
+  reencodeJpeg?(bytes: Uint8Array, quality: number): Promise<Uint8Array>;
+  // bytes originais de um preenchimento de imagem (fundo de frame, sem os filhos por cima)
+  exportImageFill(imageHash: string): Promise<Uint8Array>;
+};
+
+// fundo de container que não cabe num bgcolor (imagem ou gradiente); o bgcolor vira fallback
+// imagem exportada, com a linha do relatório; o relatório só entra quando a imagem é usada, na ordem do html
+type ExportedImage = {
+  bytes: Uint8Array;
+  format: 'PNG' | 'JPG';
+  report: ImageExportReport;
+};
+
+// progresso (nodes feitos / total) e cancelamento vindo da UI
+type ConversionMonitor = {
+  onProgress(done: number, total: number): void;
+  isCancelled(): boolean;
+};
+
+type BackgroundLayer = {
+  fallbackHex: string | null;
+  fallbackRgb: RgbColor;
+  style: HtmlStyle;
+  imageUrl: string | null;
+  vmlFill: string;
+};
+
+// imagem exportada no modo hosted; o nome é o caminho relativo dentro do zip (images/)
+type EmailAsset = {
+  name: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  mimeType: string;
+};
+
+// tamanho final de cada imagem exportada, mostrado na UI
+type ImageExportReport = {
+  nodeId: string;
+  name: string;
+  format: 'PNG' | 'JPG';
+  scale: number;
+  quality: number | null;
+  byteSize: number;
+  overBudget: boolean;
+};
+
+// aviso do relatório de compatibilidade; nodeId null = vale pro e-mail inteiro
+type CompatibilityWarning = {
+  nodeId: string | null;
+  nodeName: string;
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+type ConversionResult = {
+  html: string;
+  assets: EmailAsset[];
+  imageReport: ImageExportReport[];
+  warnings: CompatibilityWarning[];
+  templates: TemplateExport | null; // só com partials ligados e ao menos uma instância
+};
+
+// --- partials: cada componente principal sai uma vez, e cada instância vira um include ---
+type TemplateEngine = 'handlebars' | 'liquid';
+
+// propriedade do componente como variável do partial; key = nome da propriedade no Figma ("Title#12:0")
+type TemplateVariable = {
+  name: string;
+  key: string;
+  type: 'TEXT' | 'BOOLEAN' | 'INSTANCE_SWAP';
+  defaultValue: string | boolean; // INSTANCE_SWAP: nome do partial
+};
+
+type TemplatePartial = {
+  name: string;
+  componentId: string;
+  componentName: string;
+  variables: TemplateVariable[];
+  html: string;
+};
+
+// arquivos do zip: partials/<nome><extension> e o USAGE.md com o exemplo de uso
+type TemplateExport = {
+  engine: TemplateEngine;
+  extension: string;
+  partials: TemplatePartial[];
+  usage: string;
+};
+
+type EmailDocumentOptions = {
+  title: string;
+  preheader: string;
+  backgroundColor: string;
+  backgroundClassName: string | null; // classe do modo escuro do fundo, quando o fill do frame raiz usa variável
+  width: number;
+  lang: string;
+  dir: 'ltr' | 'rtl';
+};
+
+// --- árvore de html: os renderers montam nós e o serializer decide o formato da saída ---
+type HtmlAttributes = { [name: string]: string | number | null | undefined }; // null, undefined ou '' = atributo fica de fora (menos alt)
+type HtmlStyle = { [property: string]: string }; // ordem das chaves = ordem no style
+type HtmlElement = { kind: 'element'; tag: string; attributes: HtmlAttributes; style: HtmlStyle; children: HtmlNode[] };
+type HtmlText = { kind: 'text'; text: string }; // escapado na serialização
+// html pronto: comentário condicional, VML, entidade, bloco de ESP, html colado; block = pode ficar numa linha própria
+type HtmlRaw = { kind: 'raw'; html: string; block: boolean };
+type HtmlNode = HtmlElement | HtmlText | HtmlRaw;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function htmlElement(tag: string, attributes: HtmlAttributes = {}, style: HtmlStyle = {}, children: HtmlNode[] = []): HtmlElement {
+  return { kind: 'element', tag, attributes, style, children };
+}
+
+function htmlText(text: string): HtmlText {
+  return { kind: 'text', text };
+}
+
+function htmlRaw(html: string, block = false): HtmlRaw {
+  return { kind: 'raw', html, block };
+}
+
+function htmlRow(cells: HtmlNode[]): HtmlElement {
+  return htmlElement('tr', {}, {}, cells);
+}
+
+// tabela de layout: sem borda nem espaçamento, e o leitor de tela não anuncia como tabela
+function htmlTable(attributes: HtmlAttributes, style: HtmlStyle, rows: HtmlNode[]): HtmlElement {
+  return htmlElement('table', { ...attributes, border: 0, cellpadding: 0, cellspacing: 0, role: 'presentation' }, style, rows);
+}
+
+// linha vazia de altura fixa; font-size/line-height seguram a altura no Outlook
+function htmlSpacerRow(height: number, colSpan = 1): HtmlElement {
+  const style = { height: `${height}px`, 'font-size': `${height}px`, 'line-height': `${height}px` };
+  return htmlRow([htmlElement('td', { height, colspan: colSpan > 1 ? colSpan : null }, style, [htmlRaw('&nbsp;')])]);
+}
+
+// --- serialização ---
+const VOID_HTML_TAGS = ['img', 'br', 'meta', 'link', 'mj-image', 'mj-spacer', 'mj-divider', 'mj-all'];
+// espaço em branco entre esses não aparece no e-mail, então no modo pretty cada um vai numa linha
+const BLOCK_HTML_TAGS = ['html', 'head', 'body', 'meta', 'link', 'title', 'style', 'table', 'tr', 'td', 'div', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'center'];
+
+function isBlockHtmlNode(node: HtmlNode): boolean {
+  if (node.kind === 'raw') return node.block;
+  return node.kind === 'element' && (BLOCK_HTML_TAGS.indexOf(node.tag) !== -1 || node.tag.indexOf('mj') === 0);
+}
+
+function serializeStyle(style: HtmlStyle, format: HtmlFormat): string {
+  const declarations = Object.keys(style).filter(property => style[property]).map(property => `${property}:${style[property]}`);
+  return format === 'minified' ? declarations.join(';') : declarations.map(declaration => `${declaration};`).join(' ');
+}
+
+function minifyCss(css: string): string {
+  return css.replace(/\s*\n\s*/g, ' ').replace(/\s*([{};])\s*/g, '$1').replace(/;}/g, '}').trim();
+}
+
+function serializeHtml(nodes: HtmlNode[], format: HtmlFormat): string {
+  const pretty = format === 'pretty';
+  const indent = (level: number) => '  '.repeat(Math.max(0, level));
+
+  const serializeNode = (node: HtmlNode, level: number, parentTag: string): string => {
+    if (node.kind === 'text') return node.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    if (node.kind === 'raw') {
+      // css não liga pra espaço: minifica ou reindenta junto com o <style>
+      if (parentTag !== 'style' && parentTag !== 'mj-style') return node.html;
+      return pretty ? node.html.split('\n').join(`\n${indent(level)}`) : minifyCss(node.html);
+    }
+
+    // alt="" é de propósito (imagem decorativa); nos outros, vazio é o mesmo que ausente
+    const attributes = Object.keys(node.attributes)
+      .filter(name => node.attributes[name] !== null && node.attributes[name] !== undefined && (node.attributes[name] !== '' || name === 'alt'))
+      .map(name => ` ${name}="${escapeHtml(String(node.attributes[name]))}"`);
+    const css = serializeStyle(node.style, format);
+    if (css) attributes.push(` style="${escapeHtml(css)}"`);
+    const openTag = `<${node.tag}${attributes.join('')}`;
+    if (node.children.length === 0 && VOID_HTML_TAGS.indexOf(node.tag) !== -1) return `${openTag} />`;
+    return `${openTag}>${serializeChildren(node.children, level + 1, node.tag)}</${node.tag}>`;
+  };
+
+  // filho inline (texto, span, link, imagem) fica colado: quebra de linha ali vira espaço no e-mail
+  const serializeChildren = (children: HtmlNode[], level: number, parentTag: string): string => {
+    if (!pretty || children.length === 0 || !children.every(isBlockHtmlNode)) {
+      return children.map(child => serializeNode(child, level - 1, parentTag)).join('');
+    }
+    return `\n${children.map(child => indent(level) + serializeNode(child, level, parentTag)).join('\n')}\n${indent(level - 1)}`;
+  };
+
+  return serializeChildren(nodes, 0, '').replace(/^\n|\n$/g, '');
+}
+
+// só acabamento de texto vai pra classe; tamanho, cor, espaçamento e layout ficam inline,
+// então o e-mail continua montado em cliente que descarta o <style>
+const EXTRACTABLE_STYLE_PROPERTIES = ['font-family', 'font-weight', 'font-style', 'font-variant', 'letter-spacing', 'text-transform'];
+
+// conjunto de declarações que aparece em mais de um elemento vira classe (st1, st2...); devolve o css das classes
+function extractStyleClasses(nodes: HtmlNode[]): string {
+  const elements: HtmlElement[] = [];
+  const collect = (node: HtmlNode) => {
+    if (node.kind !== 'element') return;
+    elements.push(node);
+    node.children.forEach(collect);
+  };
+  nodes.forEach(collect);
+
+  const declarationsOf = (element: HtmlElement) => EXTRACTABLE_STYLE_PROPERTIES
+    .filter(property => element.style[property])
+    .map(property => `${property}:${element.style[property]};`);
+  const counts = new Map<string, number>();
+  elements.forEach(element => {
+    const key = declarationsOf(element).join(' ');
+    if (key) counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  const classNames = new Map<string, string>();
+  const rules: string[] = [];
+  for (const element of elements) {
+    const key = declarationsOf(element).join(' ');
+    if (!key || (counts.get(key) || 0) < 2) continue;
+    let className = classNames.get(key);
+    if (!className) {
+      className = `st${classNames.size + 1}`;
+      classNames.set(key, className);
+      rules.push(`.${className} { ${key} }`);
+    }
+    EXTRACTABLE_STYLE_PROPERTIES.forEach(property => delete element.style[property]);
+    element.attributes['class'] = [element.attributes['class'], className].filter(Boolean).join(' ');
+  }
+  return rules.join('\n');
+}
+
+// link vindo do protótipo (reaction com acao OPEN_URL)
+function getReactionLink(node: SceneNode): NodeLink | null {
+  if (!("reactions" in node) || !Array.isArray(node.reactions)) return null;
+  for (const reaction of node.reactions) {
+    const actions = reaction.actions ?? (reaction.action ? [reaction.action] : []);
+    for (const action of actions) {
+      if (action.type === 'URL' && action.url) {
+        return { url: action.url, openInNewTab: action.openInNewTab !== false };
+      }
+    }
+  }
+  return null;
+}
+
+function buildLinkElement(link: NodeLink, style: HtmlStyle, children: HtmlNode[], className: string | null = null): HtmlElement {
+  return htmlElement('a', { href: link.url, target: link.openInNewTab ? '_blank' : null, class: className }, style, children);
+}
+
+function figmaColorToHex(color: RgbColor): string {
+  const toHex = (c: number) => ("0" + Math.round(c * 255).toString(16)).slice(-2);
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunks.push(
+      alphabet[(triple >> 18) & 63] +
+      alphabet[(triple >> 12) & 63] +
+      (i + 1 < bytes.length ? alphabet[(triple >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? alphabet[triple & 63] : '=')
+    );
+  }
+  return chunks.join('');
+}
+
+// FNV-1a 32 bits; só pra deduplicar imagens idênticas, não é criptográfico
+function hashBytes(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${("0000000" + hash.toString(16)).slice(-8)}-${bytes.length}`;
+}
+
+// --- fallback de fontes ---
+const fontCategoryStacks: { [category in FontCategory]: string } = {
+  'sans-serif': "Arial, Helvetica, sans-serif",
+  'serif': "Georgia, 'Times New Roman', serif",
+  'monospace': "'Courier New', Courier, monospace",
+  'handwriting': "'Brush Script MT', 'Comic Sans MS', cursive",
+};
+
+// o Figma não expõe a classificação da fonte; lista das famílias mais comuns (categorias do Google Fonts)
+const knownFontCategories: { [family: string]: FontCategory } = {
+  'playfair display': 'serif', 'merriweather': 'serif', 'lora': 'serif', 'pt serif': 'serif', 'libre baskerville': 'serif',
+  'georgia': 'serif', 'times new roman': 'serif', 'times': 'serif', 'garamond': 'serif', 'eb garamond': 'serif',
+  'cormorant': 'serif', 'cormorant garamond': 'serif', 'crimson text': 'serif', 'crimson pro': 'serif', 'source serif pro': 'serif',
+  'noto serif': 'serif', 'bodoni moda': 'serif', 'dm serif display': 'serif', 'roboto slab': 'serif', 'zilla slab': 'serif',
+  'arvo': 'serif', 'bitter': 'serif', 'domine': 'serif', 'spectral': 'serif', 'libre caslon text': 'serif', 'cinzel': 'serif',
+  'abril fatface': 'serif', 'prata': 'serif', 'fraunces': 'serif', 'newsreader': 'serif', 'baskerville': 'serif',
+  'roboto mono': 'monospace', 'source code pro': 'monospace', 'fira code': 'monospace', 'fira mono': 'monospace',
+  'jetbrains mono': 'monospace', 'ibm plex mono': 'monospace', 'space mono': 'monospace', 'inconsolata': 'monospace',
+  'courier new': 'monospace', 'courier': 'monospace', 'sf mono': 'monospace', 'menlo': 'monospace',
+  'pacifico': 'handwriting', 'dancing script': 'handwriting', 'caveat': 'handwriting', 'great vibes': 'handwriting',
+  'satisfy': 'handwriting', 'shadows into light': 'handwriting', 'indie flower': 'handwriting', 'kalam': 'handwriting',
+  'sacramento': 'handwriting', 'permanent marker': 'handwriting', 'lobster': 'handwriting',
+};
+
+// já instaladas nos clientes; não precisam de web font
+const systemFontFamilies = [
+  'arial', 'helvetica', 'helvetica neue', 'georgia', 'times new roman', 'times', 'verdana', 'tahoma', 'trebuchet ms',
+  'courier new', 'courier', 'segoe ui', 'sf pro', 'sf pro display', 'sf pro text', 'sf mono', 'menlo', 'baskerville', 'garamond',
+];
+
+function getFontWeightFromStyleName(styleName: string): number {
+  const name = styleName.toLowerCase().replace(/[\s_-]/g, '');
+  if (/thin|hairline/.test(name)) return 100;
+  if (/(extra|ultra)light/.test(name)) return 200;
+  if (/light/.test(name)) return 300;
+  if (/medium/.test(name)) return 500;
+  if (/(semi|demi)bold/.test(name)) return 600;
+  if (/(extra|ultra)bold/.test(name)) return 800;
+  if (/black|heavy/.test(name)) return 900;
+  if (/bold/.test(name)) return 700;
+  return 400;
+}
+
+function getFontCategory(family: string): FontCategory {
+  const lower = family.toLowerCase();
+  if (knownFontCategories[lower]) return knownFontCategories[lower];
+  if (/mono|code|courier/.test(lower)) return 'monospace';
+  if (/script|hand|brush/.test(lower)) return 'handwriting';
+  if (/sans/.test(lower)) return 'sans-serif';
+  if (/serif|slab|times|garamond|baskerville|bodoni|caslon/.test(lower)) return 'serif';
+  return 'sans-serif';
+}
+
+// o Google Fonts recusa peso que a família não tem; só pede os estilos usados no layout
+function getGoogleFontsUrl(family: string, styleNames: string[]): string {
+  const tuples = styleNames
+    .map(style => `${/italic|oblique/i.test(style) ? 1 : 0},${getFontWeightFromStyleName(style)}`)
+    .filter((tuple, index, all) => all.indexOf(tuple) === index)
+    .sort((a, b) => Number(a.split(',')[0]) - Number(b.split(',')[0]) || Number(a.split(',')[1]) - Number(b.split(',')[1]));
+  const axes = tuples.length > 0 && tuples.join(';') !== '0,400' ? `:ital,wght@${tuples.join(';')}` : '';
+  return `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family).replace(/%20/g, '+')}${axes}&display=swap`;
+}
+
+function getDefaultFontMapping(family: string, styleNames: string[] = []): FontMapping {
+  const isSystemFont = systemFontFamilies.indexOf(family.toLowerCase()) !== -1;
+  return {
+    family,
+    stack: `'${family}', ${fontCategoryStacks[getFontCategory(family)]}`,
+    webFontUrl: isSystemFont ? '' : getGoogleFontsUrl(family, styleNames),
+  };
+}
+
+const NODE_OVERRIDES_KEY = 'exportOverrides';
+
+function loadNodeOverrides(node: BaseNode): NodeOverrides {
+  try {
+    const saved = JSON.parse(node.getPluginData(NODE_OVERRIDES_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+// --- ESP: placeholders {{nome}} e blocos [if nome]/[each nome] na sintaxe de cada plataforma ---
+type EspBlock = {
+  open: string;
+  close: string;
+  itemTag?(field: string): string; // só nos laços: {{item.campo}} vira o campo do item da vez
+  outerTag?(name: string): string; // laço que troca o contexto: o resto dos merge tags sobe pra raiz
+};
+type EspSyntax = {
+  mergeTag(name: string): string;
+  ifBlock(name: string): EspBlock;
+  eachBlock(name: string): EspBlock | null; // null = a plataforma não tem laço
+};
+
+// nomes comuns que a plataforma já tem com outro nome
+const espTokenAliases: { [profile in EspProfile]: { [token: string]: string } } = {
+  none: {},
+  mailchimp: { first_name: 'FNAME', last_name: 'LNAME', email: 'EMAIL', unsubscribe_url: 'UNSUB', update_profile_url: 'UPDATE_PROFILE', view_in_browser_url: 'ARCHIVE' },
+  ampscript: { email: 'emailaddr', unsubscribe_url: 'unsub_center_url', view_in_browser_url: 'view_email_url' },
+  liquid: {},
+  hubl: { first_name: 'contact.firstname', last_name: 'contact.lastname', email: 'contact.email', unsubscribe_url: 'unsubscribe_link', view_in_browser_url: 'view_as_page_url' },
+  handlebars: {},
+};
+
+const hublVariable = (name: string) => espTokenAliases.hubl[name] || (name.indexOf('.') !== -1 ? name : `contact.${name}`);
+
+// variável do AMPscript não aceita ponto; o índice tem nome próprio pra laços aninhados não dividirem o @i
+const ampscriptRowset = (name: string) => `@${name.replace(/\W/g, '_')}`;
+
+const espSyntaxes: { [profile in Exclude<EspProfile, 'none'>]: EspSyntax } = {
+  mailchimp: {
+    mergeTag: name => `*|${(espTokenAliases.mailchimp[name] || name).toUpperCase()}|*`,
+    ifBlock: name => ({ open: `*|IF:${(espTokenAliases.mailchimp[name] || name).toUpperCase()}|*`, close: '*|END:IF|*' }),
+    eachBlock: () => null,
+  },
+  ampscript: {
+    mergeTag: name => `%%${espTokenAliases.ampscript[name] || name}%%`,
+    ifBlock: name => ({ open: `%%[ IF NOT EMPTY(AttributeValue("${espTokenAliases.ampscript[name] || name}")) THEN ]%%`, close: '%%[ ENDIF ]%%' }),
+    // o atributo traz a lista em JSON; com data extension, troque o BuildRowsetFromJSON por LookupRows
+    eachBlock: name => {
+      const rowset = ampscriptRowset(name);
+      return {
+        open: `%%[ SET ${rowset} = BuildRowsetFromJSON(AttributeValue("${espTokenAliases.ampscript[name] || name}"), "$.[*]", 1) FOR ${rowset}_i = 1 TO RowCount(${rowset}) DO ]%%`,
+        close: `%%[ NEXT ${rowset}_i ]%%`,
+        itemTag: field => `%%=Field(Row(${rowset}, ${rowset}_i), "${field}")=%%`,
+      };
+    },
+  },
+  liquid: {
+    // atributo do perfil no Braze é ${nome}; com ponto (item.titulo dentro de um laço) é variável comum
+    mergeTag: name => name.indexOf('.') !== -1 ? `{{ ${name} }}` : `{{\${${name}}}}`,
+    ifBlock: name => ({ open: `{% if \${${name}} %}`, close: '{% endif %}' }),
+    eachBlock: name => ({ open: `{% for item in \${${name}} %}`, close: '{% endfor %}', itemTag: field => `{{ item.${field} }}` }),
+  },
+  hubl: {
+    mergeTag: name => `{{ ${hublVariable(name)} }}`,
+    ifBlock: name => ({ open: `{% if ${hublVariable(name)} %}`, close: '{% endif %}' }),
+    eachBlock: name => ({ open: `{% for item in ${name} %}`, close: '{% endfor %}', itemTag: field => `{{ item.${field} }}` }),
+  },
+  handlebars: {
+    mergeTag: name => `{{${name}}}`,
+    ifBlock: name => ({ open: `{{#if ${name}}}`, close: '{{/if}}' }),
+    // dentro do each o contexto é o item: o block param dá nome a ele e o resto vem do @root
+    eachBlock: name => ({ open: `{{#each ${name} as |item|}}`, close: '{{/each}}', itemTag: field => `{{item.${field}}}`, outerTag: name => `{{@root.${name}}}` }),
+  },
+};
+
+// partials: include com os valores da instância e variável/condicional/include dinâmico dentro do partial
+type PartialParam = { name: string; value: string | boolean };
+type PartialSyntax = {
+  extension: string;
+  variable(name: string): string;
+  ifBlock(name: string): EspBlock;
+  include(partial: string, params: PartialParam[]): string;
+  dynamicInclude(name: string): string; // INSTANCE_SWAP: a variável traz o nome do partial
+};
+
+// string do Liquid não tem escape: usa a aspa que não aparece no texto (com as duas, a dupla vira tipográfica)
+const liquidString = (value: string) => value.indexOf('"') === -1 ? `"${value}"`
+  : value.indexOf("'") === -1 ? `'${value}'` : `"${value.replace(/"/g, '\u201d')}"`;
+
+const partialSyntaxes: { [engine in TemplateEngine]: PartialSyntax } = {
+  handlebars: {
+    extension: '.hbs',
+    variable: name => `{{${name}}}`,
+    ifBlock: name => ({ open: `{{#if ${name}}}`, close: '{{/if}}' }),
+    include: (partial, params) => `{{> ${partial}${params.map(param => ` ${param.name}=${typeof param.value === 'boolean' ? param.value : `"${param.value.replace(/"/g, '\\"')}"`}`).join('')}}}`,
+    dynamicInclude: name => `{{> (lookup . '${name}')}}`,
+  },
+  liquid: {
+    extension: '.liquid',
+    // o Handlebars escapa o valor sozinho; no Liquid precisa do filtro
+    variable: name => `{{ ${name} | escape }}`,
+    ifBlock: name => ({ open: `{% if ${name} %}`, close: '{% endif %}' }),
+    include: (partial, params) => `{% render '${partial}'${params.map(param => `, ${param.name}: ${typeof param.value === 'boolean' ? param.value : liquidString(param.value)}`).join('')} %}`,
+    // sem aspas o LiquidJS lê o nome do partial da variável (dynamicPartials)
+    dynamicInclude: name => `{% render ${name} %}`,
+  },
+};
+
+// "Show icon#12:3" -> show_icon
+function getTemplateVariableName(propertyKey: string): string {
+  const name = propertyKey.split('#')[0]
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!name) return 'value';
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+// --- relatório de compatibilidade ---
+const GMAIL_CLIP_BYTES = 102 * 1024; // o Gmail corta a mensagem ("[Message clipped]") acima disso
+const MAX_TABLE_DEPTH = 8;
+const defaultLayerNamePattern = /^(rectangle|ellipse|frame|group|vector|line|polygon|star|image|component|instance|union|subtract|intersect|exclude)( \d+)?$/i;
+
+function getUtf8ByteLength(text: string): number {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) length += 1;
+    else if (code < 0x800) length += 2;
+    // par surrogate conta 4 bytes no total (2 + 2)
+    else if (code >= 0xd800 && code <= 0xdfff) length += 2;
+    else length += 3;
+  }
+  return length;
+}
+
+function getMaxTableDepth(html: string): number {
+  const tagPattern = /<(\/?)table\b/gi;
+  let depth = 0;
+  let maxDepth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    depth += match[1] ? -1 : 1;
+    maxDepth = Math.max(maxDepth, depth);
+  }
+  return maxDepth;
+}
+
+// contraste WCAG entre duas cores (1 a 21)
+function getContrastRatio(a: RgbColor, b: RgbColor): number {
+  const luminance = ({ r, g, b }: RgbColor) => {
+    const [lr, lg, lb] = [r, g, b].map(channel => channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4));
+    return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  };
+  const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'image';
+}
+
+// --- adaptadores pro modelo EmailNode ---
+function createEmailNode(fields: Partial<EmailNode> & { type: EmailNodeType }): EmailNode {
+  return {
+    id: '',
+    name: '',
+    visible: true,
+    opacity: 1,
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    isTopLevel: false,
+    fills: [],
+    strokes: [],
+    strokeWeight: 0,
+    strokeTopWeight: fields.strokeWeight ?? 0,
+    strokeRightWeight: fields.strokeWeight ?? 0,
+    strokeBottomWeight: fields.strokeWeight ?? 0,
+    strokeLeftWeight: fields.strokeWeight ?? 0,
+    strokeAlign: 'INSIDE',
+    dashPattern: [],
+    cornerRadius: 0,
+    topLeftRadius: fields.cornerRadius ?? 0,
+    topRightRadius: fields.cornerRadius ?? 0,
+    bottomRightRadius: fields.cornerRadius ?? 0,
+    bottomLeftRadius: fields.cornerRadius ?? 0,
+    layoutMode: 'NONE',
+    paddingTop: 0,
+    paddingRight: 0,
+    paddingBottom: 0,
+    paddingLeft: 0,
+    itemSpacing: 0,
+    counterAxisSpacing: 0,
+    layoutWrap: 'NO_WRAP',
+    primaryAxisAlignItems: 'MIN',
+    counterAxisAlignItems: 'MIN',
+    layoutSizingHorizontal: 'FIXED',
+    layoutGrow: 0,
+    reactionLink: null,
+    overrides: {},
+    effects: [],
+    characters: '',
+    textAlignHorizontal: 'LEFT',
+    textAlignVertical: 'TOP',
+    textStyleName: '',
+    description: '',
+    componentProperties: {},
+    propertyReferences: {},
+    mainComponent: null,
+    segments: [],
+    children: [],
+    ...fields,
+  };
+}
+
+const supportedNodeTypes: EmailNodeType[] = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE', 'RECTANGLE', 'ELLIPSE', 'VECTOR', 'LINE', 'TEXT'];
+
+function sceneNodeToEmailNode(node: SceneNode, offset = { x: 0, y: 0 }): EmailNode {
+  const type = supportedNodeTypes.indexOf(node.type as EmailNodeType) !== -1 ? node.type as EmailNodeType : 'OTHER';
+  const emailNode = createEmailNode({
+    id: node.id,
+    name: node.name,
+    type,
+    visible: node.visible,
+    opacity: "opacity" in node ? node.opacity : 1,
+    x: node.x - offset.x,
+    y: node.y - offset.y,
+    width: node.width,
+    height: node.height,
+    isTopLevel: node.parent?.type === 'PAGE',
+    reactionLink: getReactionLink(node),
+    overrides: loadNodeOverrides(node),
+  });
+
+  if ("fills" in node) emailNode.fills = node.fills === figma.mixed ? null : [...node.fills];
+  if ("strokes" in node) emailNode.strokes = [...node.strokes];
+  if ("effects" in node) emailNode.effects = node.effects.filter(effect => effect.visible);
+  if ("strokeWeight" in node) {
+    emailNode.strokeWeight = node.strokeWeight === figma.mixed ? null : node.strokeWeight;
+    const uniformWeight = node.strokeWeight === figma.mixed ? 0 : node.strokeWeight;
+    emailNode.strokeTopWeight = "strokeTopWeight" in node ? node.strokeTopWeight : uniformWeight;
+    emailNode.strokeRightWeight = "strokeRightWeight" in node ? node.strokeRightWeight : uniformWeight;
+    emailNode.strokeBottomWeight = "strokeBottomWeight" in node ? node.strokeBottomWeight : uniformWeight;
+    emailNode.strokeLeftWeight = "strokeLeftWeight" in node ? node.strokeLeftWeight : uniformWeight;
+  }
+  if ("strokeAlign" in node) emailNode.strokeAlign = node.strokeAlign;
+  if ("dashPattern" in node) emailNode.dashPattern = [...node.dashPattern];
+  if ("cornerRadius" in node) {
+    emailNode.cornerRadius = node.cornerRadius === figma.mixed ? ("topLeftRadius" in node ? node.topLeftRadius : 0) : node.cornerRadius ?? 0;
+    emailNode.topLeftRadius = "topLeftRadius" in node ? node.topLeftRadius : emailNode.cornerRadius;
+    emailNode.topRightRadius = "topRightRadius" in node ? node.topRightRadius : emailNode.cornerRadius;
+    emailNode.bottomRightRadius = "bottomRightRadius" in node ? node.bottomRightRadius : emailNode.cornerRadius;
+    emailNode.bottomLeftRadius = "bottomLeftRadius" in node ? node.bottomLeftRadius : emailNode.cornerRadius;
+  }
+
+  if ("layoutMode" in node) {
+    emailNode.layoutMode = node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL' ? node.layoutMode : 'NONE';
+    emailNode.paddingTop = node.paddingTop;
+    emailNode.paddingRight = node.paddingRight;
+    emailNode.paddingBottom = node.paddingBottom;
+    emailNode.paddingLeft = node.paddingLeft;
+    emailNode.itemSpacing = node.itemSpacing;
+    emailNode.counterAxisSpacing = node.counterAxisSpacing ?? 0;
+    emailNode.layoutWrap = node.layoutWrap;
+    emailNode.primaryAxisAlignItems = node.primaryAxisAlignItems;
+    emailNode.counterAxisAlignItems = node.counterAxisAlignItems;
+  }
+  if (node.type === 'COMPONENT') {
+    emailNode.description = node.description;
+    // variante não tem definições próprias: ficam no component set
+    const definitions = node.parent?.type === 'COMPONENT_SET' ? node.parent.componentPropertyDefinitions : node.componentPropertyDefinitions;
+    for (const key in definitions) emailNode.componentProperties[key] = { type: definitions[key].type, value: definitions[key].defaultValue };
+  }
+  if (node.type === 'INSTANCE') {
+    for (const key in node.componentProperties) emailNode.componentProperties[key] = { type: node.componentProperties[key].type, value: node.componentProperties[key].value };
+  }
+  if ("componentPropertyReferences" in node && node.componentPropertyReferences) emailNode.propertyReferences = { ...node.componentPropertyReferences };
+  if ("layoutSizingHorizontal" in node) emailNode.layoutSizingHorizontal = node.layoutSizingHorizontal;
+  if ("layoutGrow" in node) emailNode.layoutGrow = node.layoutGrow;
+
+  if (node.type === 'TEXT') {
+    emailNode.characters = node.characters;
+    emailNode.textAlignHorizontal = node.textAlignHorizontal;
+    emailNode.textAlignVertical = node.textAlignVertical;
+    const segmentFields: (keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>)[] = [
+      'fontName', 'fontSize', 'fills', 'lineHeight', 'textDecoration', 'hyperlink', 'letterSpacing', 'textCase', 'paragraphSpacing', 'paragraphIndent',
+    ];
+    emailNode.segments = node.getStyledTextSegments(segmentFields).map(segment => ({
+      characters: segment.characters,
+      fontName: segment.fontName,
+      fontSize: segment.fontSize,
+      fills: [...segment.fills],
+      lineHeight: segment.lineHeight,
+      textDecoration: segment.textDecoration,
+      hyperlink: segment.hyperlink,
+      letterSpacing: segment.letterSpacing,
+      textCase: segment.textCase,
+      paragraphSpacing: segment.paragraphSpacing,
+      paragraphIndent: segment.paragraphIndent,
+    }));
+  }
+
+  if ("children" in node) {
+    // filhos de grupo vem posicionados em relação ao frame de fora; normaliza pro grupo
+    const childOffset = node.type === 'GROUP' || node.type === 'BOOLEAN_OPERATION' ? { x: node.x, y: node.y } : { x: 0, y: 0 };
+    emailNode.children = node.children.map(child => sceneNodeToEmailNode(child, childOffset));
+  }
+  return emailNode;
+}
+
+// estilo de texto e componente principal da instância só saem pela API async no dynamic-page;
+// completa o modelo depois do adaptador (fixtures já trazem os campos prontos).
+// com `components`, a instância também leva a árvore do componente principal, convertida uma vez por id
+async function loadNodeSemantics(node: EmailNode, components: Map<string, Promise<EmailNode>> | null = null): Promise<void> {
+  if (node.type === 'TEXT' || node.type === 'INSTANCE') {
+    const sceneNode = await figma.getNodeByIdAsync(node.id).catch(() => null);
+    if (sceneNode && sceneNode.type === 'TEXT' && typeof sceneNode.textStyleId === 'string' && sceneNode.textStyleId) {
+      const style = await figma.getStyleByIdAsync(sceneNode.textStyleId).catch(() => null);
+      if (style) node.textStyleName = style.name;
+    }
+    if (sceneNode && sceneNode.type === 'INSTANCE') {
+      const mainComponent = await sceneNode.getMainComponentAsync().catch(() => null);
+      if (mainComponent) node.description = mainComponent.description;
+      if (mainComponent && components) node.mainComponent = await loadMainComponent(mainComponent, components);
+    }
+  }
+  await Promise.all(node.children.map(child => loadNodeSemantics(child, components)));
+}
+
+function loadMainComponent(component: ComponentNode, components: Map<string, Promise<EmailNode>>): Promise<EmailNode> {
+  const loaded = components.get(component.id);
+  if (loaded) return loaded;
+  const emailNode = { ...sceneNodeToEmailNode(component), isTopLevel: false };
+  // nome da variante ("Size=Large") sozinho não diz de qual componente é
+  if (component.parent?.type === 'COMPONENT_SET') emailNode.name = `${component.parent.name} ${component.name}`;
+  const loading = loadNodeSemantics(emailNode, components).then(() => emailNode);
+  components.set(component.id, loading);
+  return loading;
+}
+
+let fixtureIdCounter = 0;
+
+function jsonFixtureToEmailNode(fixture: EmailNodeFixture): EmailNode {
+  if (!fixture || supportedNodeTypes.concat(['OTHER']).indexOf(fixture.type) === -1) {
+    throw new Error(`Invalid fixture node type: ${fixture?.type}`);
+  }
+  const { children = [], mainComponent, ...fields } = fixture;
+  return createEmailNode({
+    ...fields,
+    id: fields.id || `fixture:${++fixtureIdCounter}`,
+    name: fields.name ?? fields.type,
+    mainComponent: mainComponent ? jsonFixtureToEmailNode(mainComponent) : null,
+    children: children.map(jsonFixtureToEmailNode),
+  });
+}
+
+const silentConversionMonitor: ConversionMonitor = {
+  onProgress() {},
+  isCancelled: () => false,
+};
+
+// sobe da renderização até quem pediu a conversão, que avisa a UI
+class ConversionCancelledError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+  }
+}
+
+const IMAGE_EXPORT_CONCURRENCY = 4;
+
+// fila: no máximo `limit` tarefas rodando ao mesmo tempo, na ordem em que chegaram
+function createConcurrencyLimit(limit: number) {
+  let running = 0;
+  const queue: (() => void)[] = [];
+  const next = () => {
+    const start = running < limit ? queue.shift() : undefined;
+    if (!start) return;
+    running++;
+    start();
+  };
+  return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).then(() => {
+        running--;
+        next();
+      });
+    });
+    next();
+  });
+}
+
+// fixtures não tem pixels; o modo base64 sai com uma imagem vazia
+const fixtureImageExporter: NodeImageExporter = {
+  async exportImage() {
+    return new Uint8Array(0);
+  },
+  async exportImageFill() {
+    return new Uint8Array(0);
+  },
+};
+
+class FigmaPluginParser {
+  private useLiteralWidth = false;
+  private buttonNameRegex: RegExp | null = null;
+  private responsiveMode: ResponsiveMode = 'off';
+  private responsiveBreakpoint = 600;
+  private usesStackClasses = false;
+  private imageExporter: NodeImageExporter;
+  private parents = new Map<EmailNode, EmailNode>();
+  private assetBaseUrl = '';
+  private assets: EmailAsset[] = [];
+  private assetNamesByHash = new Map<string, string>();
+  private imageFormat: ImageFormatSetting = 'auto';
+  private imageScale = 2;
+  private jpgQuality = 80;
+  private imageByteBudget = 0;
+  private imageReport: ImageExportReport[] = [];
+  private fontMappings = new Map<string, FontMapping>();
+  private embedWebFonts = false;
+  private usedFontFamilies: string[] = [];
+  private webFontFallbackClasses = new Map<string, { className: string, wrapsText: boolean }>(); // família (minúscula) -> classe do fallback no Outlook
+  private darkModeColors: DarkModeColors = {};
+  private darkModeClasses = new Map<string, string>();
+  private darkModeRules: { className: string; property: DarkModeProperty; value: string }[] = [];
+  private warnings: CompatibilityWarning[] = [];
+  private inferredRowIds = new Set<string>();
+  private espProfile: EspProfile = 'none';
+  private headingMode: HeadingMode = 'off';
+  private rtl = false;
+  private templatePartialsRequested = false;
+  private templateEngine: TemplateEngine | null = null; // null = instâncias saem inline
+  private partials = new Map<string, { partial: Omit<TemplatePartial, 'html'>; content: HtmlNode[] }>(); // por id do componente
+  private currentPartial: Omit<TemplatePartial, 'html'> | null = null; // partial sendo renderizado: liga as referências às variáveis
+  private currentEspLoop: EspBlock | null = null; // [each lista] mais interno em renderização
+  private rasterizedNodeIds = new Set<string>();
+  // calculados uma vez por node: a renderização pergunta de novo em cada nível
+  private imageLikeCache = new Map<EmailNode, boolean>();
+  private parentBackgroundCache = new Map<EmailNode, RgbColor>();
+  // exportações começam todas antes de renderizar (em paralelo, com limite); a renderização só espera
+  private imageExports = new Map<string, Promise<ExportedImage>>();
+  private imageFillExports = new Map<string, Promise<Uint8Array>>();
+  private limitImageExport = createConcurrencyLimit(IMAGE_EXPORT_CONCURRENCY);
+  private monitor: ConversionMonitor;
+  private progressTotal = 0;
+  private progressDone = new Set<EmailNode>();
+  private lastYieldTime = 0;
+
+  constructor(options: ParserOptions, imageExporter: NodeImageExporter, monitor: ConversionMonitor = silentConversionMonitor) {
+    this.imageExporter = imageExporter;
+    this.monitor = monitor;
+    this.useLiteralWidth = options.useLiteralWidth;
+    this.responsiveMode = options.responsiveMode || 'off';
+    this.imageFormat = options.imageFormat || 'auto';
+    this.imageScale = Math.min(3, Math.max(1, Math.round(options.imageScale || 2)));
+    this.jpgQuality = Math.min(100, Math.max(10, Math.round(options.jpgQuality || 80)));
+    this.imageByteBudget = Math.max(0, options.imageByteBudgetKb || 0) * 1024;
+    this.assetBaseUrl = options.assetBaseUrl?.trim() ? options.assetBaseUrl.trim().replace(/\/*$/, '/') : 'images/';
+    this.embedWebFonts = !!options.embedWebFonts;
+    this.darkModeColors = options.darkModeColors || {};
+    this.espProfile = options.espProfile || 'none';
+    this.headingMode = options.headingMode || 'off';
+    this.rtl = !!options.rtl;
+    this.templatePartialsRequested = !!options.templatePartials;
+    if (this.templatePartialsRequested && (this.espProfile === 'handlebars' || this.espProfile === 'liquid')) this.templateEngine = this.espProfile;
+    for (const mapping of options.fontMappings || []) {
+      if (mapping.family?.trim()) this.fontMappings.set(mapping.family.trim().toLowerCase(), mapping);
+    }
+    if (options.buttonNamePattern?.trim()) {
+      try {
+        this.buttonNameRegex = new RegExp(options.buttonNamePattern.trim(), 'i');
+      } catch (_e) {
+        // padrão inválido: segue só com a detecção por estilo
+        this.buttonNameRegex = null;
+      }
+    }
+  }
+
+  // --- auxiliares de fallback de fonte ---
+  private getFontStack(family: string): string {
+    if (this.usedFontFamilies.indexOf(family) === -1) this.usedFontFamilies.push(family);
+    const mapping = this.fontMappings.get(family.toLowerCase());
+    // aspas duplas quebrariam o atributo style
+    if (mapping?.stack?.trim()) return mapping.stack.trim().replace(/"/g, "'").replace(/;/g, '');
+    return getDefaultFontMapping(family).stack;
+  }
+
+  private getEmbeddedWebFonts(): { family: string, url: string }[] {
+    if (!this.embedWebFonts) return [];
+    return this.usedFontFamilies
+      .map(family => ({ family, url: this.fontMappings.get(family.toLowerCase())?.webFontUrl?.trim() || '' }))
+      .filter(({ url }) => !!url);
+  }
+
+  // cada elemento cujo font-family começa por uma web font ganha a classe da família (wf1, wf2...),
+  // pra o Outlook trocar pelo fallback daquela família e não pelo da primeira; no MJML vai no css-class do mj-*
+  public applyWebFontClasses(nodes: HtmlNode[]) {
+    const embedded = this.getEmbeddedWebFonts().map(({ family }) => family.toLowerCase());
+    if (embedded.length === 0) return;
+    const visit = (node: HtmlNode) => {
+      if (node.kind !== 'element') return;
+      const isMjml = node.tag.indexOf('mj-') === 0;
+      const fontFamily = node.style['font-family'] || (isMjml ? node.attributes['font-family'] : null);
+      const firstFont = typeof fontFamily === 'string' ? fontFamily.split(',')[0].trim().replace(/['"]/g, '').toLowerCase() : '';
+      if (embedded.indexOf(firstFont) !== -1) {
+        let fallback = this.webFontFallbackClasses.get(firstFont);
+        if (!fallback) {
+          fallback = { className: `wf${this.webFontFallbackClasses.size + 1}`, wrapsText: false };
+          this.webFontFallbackClasses.set(firstFont, fallback);
+        }
+        const classAttribute = isMjml && node.style['font-family'] === undefined ? 'css-class' : 'class';
+        if (classAttribute === 'css-class') fallback.wrapsText = true;
+        node.attributes[classAttribute] = [node.attributes[classAttribute], fallback.className].filter(Boolean).join(' ');
+      }
+      node.children.forEach(visit);
+    };
+    nodes.forEach(visit);
+  }
+
+  // <link>/@font-face só fora do Outlook; no Outlook cada família troca pelo próprio fallback, senão ele cai no Times New Roman
+  public getWebFontHead(): HtmlNode[] {
+    const embedded = this.getEmbeddedWebFonts();
+    if (embedded.length === 0) return [];
+
+    const links: HtmlNode[] = [];
+    const fontFaces: string[] = [];
+    const msoRules: string[] = [];
+    for (const { family, url } of embedded) {
+      const fileFormat = /\.(woff2?|ttf|otf)(\?|#|$)/i.exec(url);
+      if (fileFormat) {
+        const format = { woff: 'woff', woff2: 'woff2', ttf: 'truetype', otf: 'opentype' }[fileFormat[1].toLowerCase() as 'woff' | 'woff2' | 'ttf' | 'otf'];
+        fontFaces.push(`@font-face { font-family:'${family}'; src:url('${url.replace(/'/g, '%27')}') format('${format}'); }`);
+      } else {
+        links.push(htmlElement('link', { href: url, rel: 'stylesheet', type: 'text/css' }));
+      }
+      const fallback = this.webFontFallbackClasses.get(family.toLowerCase());
+      if (!fallback) continue;
+      const msoStack = this.getFontStack(family).split(',')
+        .map(font => font.trim())
+        .filter(font => font.replace(/['"]/g, '').toLowerCase() !== family.toLowerCase())
+        .join(', ') || fontCategoryStacks['sans-serif'];
+      // mj-text/mj-button põem o css-class por fora; o font-family inline fica na div/link de dentro
+      const selectors = fallback.wrapsText
+        ? [`.${fallback.className}`, `.${fallback.className} div`, `.${fallback.className} a`]
+        : [`.${fallback.className}`];
+      msoRules.push(`${selectors.join(', ')} { font-family:${msoStack} !important; }`);
+    }
+
+    return [
+      htmlRaw('<!--[if !mso]><!-->', true),
+      ...links,
+      ...(fontFaces.length > 0 ? [htmlElement('style', { type: 'text/css' }, {}, [htmlRaw(fontFaces.join('\n'), true)])] : []),
+      htmlRaw('<!--<![endif]-->', true),
+      ...(msoRules.length > 0 ? [htmlRaw(`<!--[if mso]><style type="text/css">${msoRules.join(' ')}</style><![endif]-->`, true)] : []),
+    ];
+  }
+
+  private getSegmentStyleObject(style: EmailTextSegment, parentBgColor: RgbColor): HtmlStyle {
+    const styles: HtmlStyle = {};
+    if (style.fills && style.fills.length > 0) {
+      const colorHex = this.registerDarkModeColor(style.fills, 'color', this.getEffectiveBackgroundColorForFills(style.fills, parentBgColor).hex);
+      if (colorHex) styles['color'] = colorHex;
+    }
+    if (style.fontName?.family) {
+      styles['font-family'] = this.getFontStack(style.fontName.family);
+      const f_style = style.fontName.style.toLowerCase();
+
+      // 400 é padrao; 700 sai como 'bold'
+      const weight = getFontWeightFromStyleName(f_style);
+      if (weight === 700) styles['font-weight'] = 'bold';
+      else if (weight !== 400) styles['font-weight'] = `${weight}`;
+      if (f_style.includes('italic') || f_style.includes('oblique')) styles['font-style'] = 'italic';
+    }
+    if (style.fontSize) styles['font-size'] = `${Math.round(style.fontSize)}px`;
+    if (style.lineHeight?.unit !== 'AUTO') {
+      if (style.lineHeight.unit === 'PIXELS') styles['line-height'] = `${Math.round(style.lineHeight.value)}px`;
+      else if (style.lineHeight.unit === 'PERCENT') styles['line-height'] = `${Math.round(style.lineHeight.value)}%`;
+    }
+    if (style.letterSpacing && style.letterSpacing.value !== 0) {
+      styles['letter-spacing'] = style.letterSpacing.unit === 'PIXELS'
+        ? `${Math.round(style.letterSpacing.value * 10) / 10}px`
+        : `${Math.round(style.letterSpacing.value * 10) / 1000}em`;
+    }
+
+    // UPPER/LOWER já mudam os caracteres (funciona sem css); o resto depende do cliente
+    if (style.textCase === 'TITLE') styles['text-transform'] = 'capitalize';
+    if (style.textCase === 'SMALL_CAPS' || style.textCase === 'SMALL_CAPS_FORCED') styles['font-variant'] = 'small-caps';
+
+    // none é padrao
+    if (style.textDecoration === "UNDERLINE") styles['text-decoration'] = 'underline';
+    if (style.textDecoration === "STRIKETHROUGH") styles['text-decoration'] = 'line-through';
+    return styles;
+  }
+
+  private applyTextCase(text: string, textCase: TextCase | undefined): string {
+    if (textCase === 'UPPER') return text.toUpperCase();
+    if (textCase === 'LOWER') return text.toLowerCase();
+    return text;
+  }
+
+  // texto de altura fixa alinhado no meio/embaixo precisa da altura no td pro valign funcionar
+  private getTextCellAttributes(node: EmailNode): HtmlAttributes {
+    if (node.textAlignVertical === 'CENTER') return { valign: 'middle', height: Math.round(node.height) };
+    if (node.textAlignVertical === 'BOTTOM') return { valign: 'bottom', height: Math.round(node.height) };
+    return {};
+  }
+
+  private diffStyleObjects(baseStyle: HtmlStyle, segmentStyle: HtmlStyle): HtmlStyle {
+    const diff: HtmlStyle = {};
+    for (const key in segmentStyle) {
+      if (baseStyle[key] !== segmentStyle[key]) {
+        diff[key] = segmentStyle[key];
+      }
+    }
+    // o que o base tem e o trecho não tem precisa voltar pro padrão, senão herda do td
+    const defaults: HtmlStyle = {
+      'font-weight': 'normal', 'font-style': 'normal', 'text-decoration': 'none', 'letter-spacing': 'normal', 'text-transform': 'none', 'font-variant': 'normal',
+    };
+    for (const key in baseStyle) {
+      if (!(key in segmentStyle) && defaults[key]) diff[key] = defaults[key];
+    }
+    return diff;
+  }
+
+  private processTextNode(node: EmailNode, parentBgColor: RgbColor, allowLinks = true, blockTag: string | null = null): { baseStyle: HtmlStyle, content: HtmlNode[] } {
+    if (!node.characters?.trim()) {
+      return { baseStyle: {}, content: [] };
+    }
+    const segments = node.segments;
+    if (segments.length === 0) {
+      return { baseStyle: {}, content: [] };
+    }
+    this.checkTextReadability(node, parentBgColor);
+
+    // aqui a gente descobre qual o estilo base pro TD pai.
+    // em vez de pegar só o primeiro, pegamos o estilo que mais aparece (por quantidade de chars)
+    // isso evita criar varios spans desnecessarios
+    const styleCounts = new Map<string, { count: number, style: HtmlStyle }>();
+    let maxCount = -1;
+    let mostCommonStyle: HtmlStyle = {};
+
+    const processedSegments = segments.map(segment => {
+      if (!segment.fontName) return null;
+
+      const style = this.getSegmentStyleObject(segment, parentBgColor);
+      const styleKey = JSON.stringify(style);
+
+      const current = styleCounts.get(styleKey) || { count: 0, style };
+      current.count += segment.characters.length;
+      styleCounts.set(styleKey, current);
+
+      if (current.count > maxCount) {
+        maxCount = current.count;
+        mostCommonStyle = style;
+      }
+      return { segment, style };
+    });
+
+    // fallback: usa o primeiro se der ruim no calculo
+    if (Object.keys(mostCommonStyle).length === 0) {
+      const firstValid = processedSegments.find(s => s !== null);
+      if (firstValid) mostCommonStyle = firstValid.style;
+    }
+
+    const baseStyle = mostCommonStyle;
+
+    // quebra os segmentos nos \n: cada parágrafo vira um bloco próprio
+    const paragraphs: { segment: EmailTextSegment; style: HtmlStyle; text: string }[][] = [[]];
+    for (const item of processedSegments) {
+      if (!item) continue;
+      item.segment.characters.split('\n').forEach((text, index) => {
+        if (index > 0) paragraphs.push([]);
+        if (text) paragraphs[paragraphs.length - 1].push({ ...item, text });
+      });
+    }
+
+    // texto que virou variável do partial sai como está (sem caixa alta nem tradução de merge tag)
+    const isTemplateVariable = !!this.getPropertyVariable(node, 'characters');
+    const paragraphContent = paragraphs.map(runs => runs.map(({ segment, style: segmentStyle, text }): HtmlNode | null => {
+      // compara com o estilo base
+      const styleDiff = this.diffStyleObjects(baseStyle, segmentStyle);
+
+      const chars = isTemplateVariable ? text : this.translateMergeTags(this.applyTextCase(text, segment.textCase));
+      if (!chars) return null;
+      const bulletEntity = bulletCharacterMap[chars.trim()];
+      const runContent = bulletEntity ? htmlRaw(bulletEntity) : htmlText(chars);
+
+      // links só pra URL; link pra outro node do arquivo não faz sentido no e-mail
+      if (allowLinks && !node.overrides.link && segment.hyperlink?.type === 'URL' && segment.hyperlink.value) {
+        // cor e decoracao sempre explicitas no <a>, senão o cliente pinta de azul
+        const linkStyle = {
+          ...styleDiff,
+          ...(segmentStyle['color'] ? { color: segmentStyle['color'] } : {}),
+          'text-decoration': segmentStyle['text-decoration'] || 'none',
+        };
+        const linkClass = this.darkModeClassName({ color: segmentStyle['color'] });
+        return buildLinkElement({ url: this.translateMergeTags(segment.hyperlink.value), openInNewTab: true }, linkStyle, [runContent], linkClass);
+      } else if (Object.keys(styleDiff).length === 0) {
+        return runContent;
+      } else {
+        let tag = 'span';
+        const diffKeys = Object.keys(styleDiff);
+        // otimização pra umas tags mais simples
+        if (diffKeys.length === 1 && diffKeys[0] === 'font-weight' && styleDiff['font-weight'] === 'bold') {
+          tag = 'strong';
+        } else if (diffKeys.length === 1 && diffKeys[0] === 'font-style' && styleDiff['font-style'] === 'italic') {
+          tag = 'i';
+        }
+        return htmlElement(tag, { class: this.darkModeClassName({ color: styleDiff['color'] }) }, styleDiff, [runContent]);
+      }
+    }).filter((run): run is HtmlNode => run !== null));
+
+    // sem espaçamento nem recuo, <br /> basta; senão cada parágrafo vira um <p> com margem
+    const firstSegment = segments[0];
+    const paragraphSpacing = Math.round(firstSegment.paragraphSpacing || 0);
+    const paragraphIndent = Math.round(firstSegment.paragraphIndent || 0);
+    // heading é um bloco só: os parágrafos dele ficam separados por <br />
+    const isHeading = !!blockTag && blockTag !== 'p';
+    const usesParagraphs = !isHeading && ((paragraphs.length > 1 && paragraphSpacing > 0) || paragraphIndent > 0);
+    let content: HtmlNode[];
+    if (usesParagraphs) {
+      content = paragraphContent.map((runs, index) => {
+        const paragraphStyle: HtmlStyle = { margin: '0', 'margin-bottom': `${index < paragraphContent.length - 1 ? paragraphSpacing : 0}px` };
+        if (paragraphIndent > 0) paragraphStyle['text-indent'] = `${paragraphIndent}px`;
+        return htmlElement('p', {}, paragraphStyle, runs.length > 0 ? runs : [htmlRaw('&nbsp;')]);
+      });
+    } else {
+      content = paragraphContent.reduce((all: HtmlNode[], runs, index) => index === 0 ? runs : [...all, htmlElement('br'), ...runs], []);
+    }
+
+    // link do inspector vale pro texto inteiro, no lugar dos links dos trechos
+    const nodeLink = allowLinks && node.overrides.link ? this.getNodeLink(node) : null;
+    if (nodeLink && content.length > 0) {
+      const linkStyle = { ...(baseStyle['color'] ? { color: baseStyle['color'] } : {}), 'text-decoration': baseStyle['text-decoration'] || 'none' };
+      content = [buildLinkElement(nodeLink, linkStyle, content, this.darkModeClassName({ color: baseStyle['color'] }))];
+    }
+
+    if (blockTag && !usesParagraphs && content.length > 0) {
+      content = [this.buildTextBlock(blockTag, baseStyle, content)];
+    }
+    return { baseStyle, content };
+  }
+
+  // h1–h6 pelo nome do estilo de texto ("Heading/H2", "Title 1", "Display"); no modo auto, texto sem estilo vai pelo tamanho
+  private getTextTag(node: EmailNode): string | null {
+    if (this.headingMode === 'off') return null;
+    const styleName = node.textStyleName.trim().toLowerCase();
+    if (styleName) {
+      const level = /\bh([1-6])\b|(?:heading|headline|title|display)\s*[-_ ]?\s*([1-6])\b/.exec(styleName);
+      if (level) return `h${level[1] || level[2]}`;
+      if (/heading|headline|title|display/.test(styleName)) return this.getHeadingTagBySize(node) || 'h2';
+      return 'p';
+    }
+    return this.headingMode === 'auto' ? this.getHeadingTagBySize(node) || 'p' : 'p';
+  }
+
+  // texto curto e grande (ou médio em negrito) é título
+  private getHeadingTagBySize(node: EmailNode): string | null {
+    const segments = node.segments.filter(s => s.fontName && s.characters.trim());
+    if (segments.length === 0 || node.characters.trim().length > 120) return null;
+    const fontSize = Math.max(...segments.map(s => s.fontSize));
+    const isBold = segments.every(s => getFontWeightFromStyleName(s.fontName.style.toLowerCase()) >= 600);
+    if (fontSize >= 32) return 'h1';
+    if (fontSize >= 24) return 'h2';
+    if (fontSize >= 18 && isBold) return 'h3';
+    return null;
+  }
+
+  // o td continua com o estilo; o <p> só zera a margem, o h1–h6 repete a tipografia (o cliente aplica tamanho, peso e cor próprios)
+  private buildTextBlock(tag: string, baseStyle: HtmlStyle, content: HtmlNode[]): HtmlElement {
+    if (tag === 'p') return htmlElement('p', {}, { margin: '0' }, content);
+    const headingStyle: HtmlStyle = { margin: '0', 'font-weight': 'normal' };
+    ['color', 'font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'letter-spacing'].forEach(key => {
+      if (baseStyle[key]) headingStyle[key] = baseStyle[key];
+    });
+    return htmlElement(tag, { class: this.darkModeClassName({ color: baseStyle['color'] }) }, headingStyle, content);
+  }
+
+  // layout desenhado da esquerda pra direita; no rtl o lado físico troca
+  private mirrorAlign(align: string): string {
+    if (!this.rtl) return align;
+    if (align === 'left') return 'right';
+    if (align === 'right') return 'left';
+    return align;
+  }
+
+  // cor do primeiro ancestral com fundo opaco; guardada por node, então cada ancestral é visto uma vez só
+  private findParentBackgroundColor(node: EmailNode): RgbColor {
+    const cached = this.parentBackgroundCache.get(node);
+    if (cached) return cached;
+    const parent = this.parents.get(node);
+    const color = parent ? this.getOpaqueFillColor(parent) || this.findParentBackgroundColor(parent) : { r: 1, g: 1, b: 1 };
+    this.parentBackgroundCache.set(node, color);
+    return color;
+  }
+
+  private getOpaqueFillColor(node: EmailNode): RgbColor | null {
+    if (!Array.isArray(node.fills) || node.fills.length === 0) return null;
+    const solidFill = node.fills.find(
+      (f) => (f.type === "SOLID" || f.type.startsWith("GRADIENT")) && f.visible !== false
+    ) as SolidPaint | GradientPaint;
+    if (!solidFill) return null;
+    if (solidFill.type === 'SOLID') {
+      return (solidFill.opacity ?? 1) >= 0.99 ? solidFill.color : null;
+    }
+    const average = this.averageGradientColor(solidFill);
+    return average.a >= 0.99 ? { r: average.r, g: average.g, b: average.b } : null;
+  }
+
+  private getStrokeWeights(node: EmailNode): { top: number; right: number; bottom: number; left: number } {
+    return {
+      top: Math.round(node.strokeTopWeight),
+      right: Math.round(node.strokeRightWeight),
+      bottom: Math.round(node.strokeBottomWeight),
+      left: Math.round(node.strokeLeftWeight),
+    };
+  }
+
+  private getBorderColorHex(node: EmailNode): string | null {
+    const stroke = (node.strokes || []).find((s) => s.visible !== false && s.type === "SOLID") as SolidPaint | undefined;
+    if (!stroke || !stroke.color) return null;
+    const { hex: colorHex } = this.getEffectiveBackgroundColorForFills([stroke], this.findParentBackgroundColor(node));
+    return this.registerDarkModeColor([stroke], 'border-color', colorHex);
+  }
+
+  private getBorderStyle(node: EmailNode): HtmlStyle | null {
+    if (!Array.isArray(node.strokes) || node.strokes.length === 0) return null;
+    const stroke = node.strokes.find((s) => s.visible !== false && s.type === "SOLID") as SolidPaint | undefined;
+    if (!stroke || !stroke.color) return null;
+    const weights = this.getStrokeWeights(node);
+    const sides = [weights.top, weights.right, weights.bottom, weights.left];
+    if (sides.every(weight => weight <= 0)) return null;
+
+    const colorHex = this.getBorderColorHex(node);
+    // traço menor ou igual à espessura é ponto (dash 0 com ponta redonda também)
+    const dash = node.dashPattern || [];
+    const lineStyle = dash.length === 0 ? 'solid' : dash[0] <= Math.max(...sides) ? 'dotted' : 'dashed';
+    const border = (weight: number) => `${weight}px ${lineStyle} ${colorHex || '#000000'}`;
+
+    if (sides.every(weight => weight === sides[0])) return { border: border(sides[0]) };
+    const style: HtmlStyle = {};
+    (['top', 'right', 'bottom', 'left'] as const)
+      .filter(side => weights[side] > 0)
+      .forEach(side => style[`border-${side}`] = border(weights[side]));
+    return style;
+  }
+
+  // parte da borda que fica dentro da caixa do node; sai do padding/altura pra manter o tamanho de fora
+  private getStrokeInsets(node: EmailNode): { top: number; right: number; bottom: number; left: number } {
+    const none = { top: 0, right: 0, bottom: 0, left: 0 };
+    if (!this.getBorderStyle(node) || node.strokeAlign === 'OUTSIDE') return none;
+    const weights = this.getStrokeWeights(node);
+    if (node.strokeAlign === 'INSIDE') return weights;
+    return {
+      top: Math.round(weights.top / 2),
+      right: Math.round(weights.right / 2),
+      bottom: Math.round(weights.bottom / 2),
+      left: Math.round(weights.left / 2),
+    };
+  }
+
+  // padding que sobra pros espaçadores depois de descontar a borda de dentro
+  private getInnerPadding(node: EmailNode): { top: number; right: number; bottom: number; left: number } {
+    const insets = this.getStrokeInsets(node);
+    return {
+      top: Math.max(0, Math.round(node.paddingTop - insets.top)),
+      right: Math.max(0, Math.round(node.paddingRight - insets.right)),
+      bottom: Math.max(0, Math.round(node.paddingBottom - insets.bottom)),
+      left: Math.max(0, Math.round(node.paddingLeft - insets.left)),
+    };
+  }
+
+  private hasCornerRadius(node: EmailNode): boolean {
+    return node.topLeftRadius > 0 || node.topRightRadius > 0 || node.bottomRightRadius > 0 || node.bottomLeftRadius > 0;
+  }
+
+  private getBorderRadiusStyle(node: EmailNode): HtmlStyle | null {
+    if (!this.hasCornerRadius(node)) return null;
+    const corners = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius].map(r => Math.round(r));
+    if (corners.every(radius => radius === corners[0])) return { 'border-radius': `${corners[0]}px` };
+    return { 'border-radius': corners.map(radius => `${radius}px`).join(' ') };
+  }
+
+  private blendColors(fg: RgbaColor, bg: RgbColor): RgbColor {
+    const r = fg.r * fg.a + bg.r * (1 - fg.a);
+    const g = fg.g * fg.a + bg.g * (1 - fg.a);
+    const b = fg.b * fg.a + bg.b * (1 - fg.a);
+    return { r, g, b };
+  }
+
+  private getEffectiveBackgroundColorForFills(fills: readonly Paint[], parentBgColor: RgbColor): { hex: string | null; rgb: RgbColor } {
+    if (!Array.isArray(fills) || fills.length === 0) return { hex: null, rgb: parentBgColor };
+    const visibleFill = fills.find((f) => f.visible !== false);
+    if (!visibleFill) return { hex: null, rgb: parentBgColor };
+
+    let color: RgbColor;
+    let opacity = 1.0;
+
+    if (visibleFill.type === "SOLID") {
+      color = visibleFill.color;
+      opacity = visibleFill.opacity ?? 1;
+    } else if (visibleFill.type.startsWith("GRADIENT")) {
+      const average = this.averageGradientColor(visibleFill as GradientPaint);
+      color = average;
+      opacity = average.a;
+    } else {
+      return { hex: null, rgb: parentBgColor };
+    }
+
+    if (opacity >= 0.99) return { hex: figmaColorToHex(color), rgb: color };
+    const finalRgb = this.blendColors({ ...color, a: opacity }, parentBgColor);
+    return { hex: figmaColorToHex(finalRgb), rgb: finalRgb };
+  }
+
+  private getEffectiveBackgroundColor(node: EmailNode, parentBgColor: RgbColor): { hex: string | null; rgb: RgbColor } {
+    if (node.fills) {
+      const background = this.getEffectiveBackgroundColorForFills(node.fills, parentBgColor);
+      return { ...background, hex: this.registerDarkModeColor(node.fills, 'background-color', background.hex) };
+    }
+    return { hex: null, rgb: parentBgColor };
+  }
+
+  // --- modo escuro ---
+  // a classe é por (propriedade, cor clara): quem renderiza só conhece o hex que foi pro inline.
+  // a mesma cor clara com outra cor escura sai com um hex vizinho (1/255 no azul, invisível) e ganha classe própria;
+  // devolve o hex que deve ir pro inline
+  private registerDarkModeColor(paints: readonly Paint[], property: DarkModeProperty, lightHex: string | null): string | null {
+    const paint = paints.find(f => f.visible !== false);
+    const alias = paint && paint.type === 'SOLID' ? paint.boundVariables?.color : undefined;
+    const darkColor = alias ? this.darkModeColors[alias.id] : undefined;
+    if (!lightHex || !darkColor) return lightHex;
+    const value = this.cssColor(darkColor);
+    const blue = parseInt(lightHex.slice(5, 7), 16);
+    let hex = lightHex;
+    for (let step = 1; this.darkModeClasses.has(`${property}:${hex}`); step++) {
+      const className = this.darkModeClasses.get(`${property}:${hex}`);
+      if (this.darkModeRules.some(rule => rule.className === className && rule.value === value)) return hex;
+      const nudged = blue < 128 ? blue + step : blue - step;
+      hex = `${lightHex.slice(0, 5)}${("0" + nudged.toString(16)).slice(-2)}`;
+    }
+    const prefix = property === 'color' ? 'dm-c' : property === 'background-color' ? 'dm-bg' : 'dm-bd';
+    const className = `${prefix}${this.darkModeRules.length + 1}`;
+    this.darkModeClasses.set(`${property}:${hex}`, className);
+    this.darkModeRules.push({ className, property, value });
+    return hex;
+  }
+
+  public darkModeClassName(colors: { color?: string | null; background?: string | null; border?: string | null }): string | null {
+    const classNames = [
+      colors.color ? this.darkModeClasses.get(`color:${colors.color}`) : undefined,
+      colors.background ? this.darkModeClasses.get(`background-color:${colors.background}`) : undefined,
+      colors.border ? this.darkModeClasses.get(`border-color:${colors.border}`) : undefined,
+    ].filter(Boolean);
+    return classNames.length > 0 ? classNames.join(' ') : null;
+  }
+
+  // prefers-color-scheme pra Apple Mail/iOS; [data-ogsc]/[data-ogsb] pro Outlook.com (texto/fundo)
+  private getDarkModeStyles(): string {
+    if (this.darkModeRules.length === 0) return "";
+    const rule = (selector: string, property: DarkModeProperty, value: string) => `${selector} { ${property}:${value} !important; }`;
+    return [
+      ':root { color-scheme: light dark; supported-color-schemes: light dark; }',
+      '@media (prefers-color-scheme: dark) {',
+      ...this.darkModeRules.map(({ className, property, value }) => `  ${rule(`.${className}`, property, value)}`),
+      '}',
+      ...this.darkModeRules.map(({ className, property, value }) => rule(`${property === 'background-color' ? '[data-ogsb]' : '[data-ogsc]'} .${className}`, property, value)),
+    ].join('\n');
+  }
+
+  public getColorSchemeMeta(): HtmlNode[] {
+    if (this.darkModeRules.length === 0) return [];
+    return [
+      htmlElement('meta', { name: 'color-scheme', content: 'light dark' }),
+      htmlElement('meta', { name: 'supported-color-schemes', content: 'light dark' }),
+    ];
+  }
+
+  // média das paradas: cor sólida mais próxima do gradiente inteiro (fallback e contraste de texto)
+  private averageGradientColor(paint: GradientPaint): RGBA {
+    const stops = paint.gradientStops;
+    const sum = stops.reduce((acc, stop) => ({
+      r: acc.r + stop.color.r, g: acc.g + stop.color.g, b: acc.b + stop.color.b, a: acc.a + (stop.color.a ?? 1),
+    }), { r: 0, g: 0, b: 0, a: 0 });
+    const count = Math.max(stops.length, 1);
+    return { r: sum.r / count, g: sum.g / count, b: sum.b / count, a: sum.a / count };
+  }
+
+  private cssColor(color: RGBA): string {
+    if ((color.a ?? 1) >= 0.99) return figmaColorToHex(color);
+    const channel = (value: number) => Math.round(value * 255);
+    return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(color.a * 100) / 100})`;
+  }
+
+  // o gradientTransform leva o espaço do node (0..1) pro espaço do gradiente, onde ele corre de (0, .5) a (1, .5);
+  // a inversa devolve as alças em pixels do node
+  private getGradientHandles(paint: GradientPaint, width: number, height: number) {
+    const [[a, b, c], [d, e, f]] = paint.gradientTransform || [[1, 0, 0], [0, 1, 0]];
+    const det = a * e - b * d || 1;
+    const toNode = (u: number, v: number) => ({
+      x: ((e * (u - c) - b * (v - f)) / det) * width,
+      y: ((-d * (u - c) + a * (v - f)) / det) * height,
+    });
+    return { start: toNode(0, 0.5), end: toNode(1, 0.5), edge: toNode(0.5, 1), center: toNode(0.5, 0.5) };
+  }
+
+  // ângulo css: 0deg aponta pra cima, gira no sentido horário
+  private getLinearGradientAngle(paint: GradientPaint, width: number, height: number): number {
+    const { start, end } = this.getGradientHandles(paint, width, height);
+    return ((Math.atan2(end.x - start.x, -(end.y - start.y)) * 180) / Math.PI + 360) % 360;
+  }
+
+  private getGradientCss(paint: GradientPaint, width: number, height: number): string | null {
+    const { start, end, edge, center } = this.getGradientHandles(paint, width, height);
+    const stopList = (position: (stop: ColorStop) => number) =>
+      paint.gradientStops.map(stop => `${this.cssColor(stop.color)} ${Math.round(position(stop) * 1000) / 10}%`).join(', ');
+
+    if (paint.type === 'GRADIENT_LINEAR') {
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const angle = this.getLinearGradientAngle(paint, width, height);
+      // no css as paradas são medidas numa linha que passa pelo centro e toca os cantos
+      const radians = (angle * Math.PI) / 180;
+      const dirX = Math.sin(radians);
+      const dirY = -Math.cos(radians);
+      const lineLength = Math.abs(width * dirX) + Math.abs(height * dirY) || 1;
+      const position = (stop: ColorStop) => {
+        const x = start.x + dx * stop.position - width / 2;
+        const y = start.y + dy * stop.position - height / 2;
+        return (x * dirX + y * dirY) / lineLength + 0.5;
+      };
+      return `linear-gradient(${Math.round(angle)}deg, ${stopList(position)})`;
+    }
+
+    if (paint.type === 'GRADIENT_RADIAL') {
+      const radiusX = Math.round(Math.sqrt(Math.pow(end.x - center.x, 2) + Math.pow(end.y - center.y, 2)));
+      const radiusY = Math.round(Math.sqrt(Math.pow(edge.x - center.x, 2) + Math.pow(edge.y - center.y, 2)));
+      return `radial-gradient(${radiusX}px ${radiusY}px at ${Math.round(center.x)}px ${Math.round(center.y)}px, ${stopList(stop => stop.position)})`;
+    }
+
+    // angular e diamond não tem equivalente em css de e-mail; fica só o fallback sólido
+    return null;
+  }
+
+  private getGradientVmlFill(paint: GradientPaint, width: number, height: number): string {
+    const stops = paint.gradientStops;
+    const first = figmaColorToHex(stops[0].color);
+    const last = figmaColorToHex(stops[stops.length - 1].color);
+    const colors = stops.length > 2
+      ? ` colors="${stops.map(stop => `${Math.round(stop.position * 100)}% ${figmaColorToHex(stop.color)}`).join(', ')}"`
+      : '';
+    if (paint.type === 'GRADIENT_RADIAL') {
+      return `<v:fill type="gradientradial" color="${last}" color2="${first}" focus="100%" focusposition="0.5,0.5"${colors} />`;
+    }
+    // vml mede o ângulo a partir de "de cima pra baixo" no sentido anti-horário; o css, a partir de "pra cima" no horário
+    const vmlAngle = Math.round((540 - this.getLinearGradientAngle(paint, width, height)) % 360);
+    return `<v:fill type="gradient" color="${first}" color2="${last}" angle="${vmlAngle}"${colors} />`;
+  }
+
+  // figma pinta os fills de baixo pra cima; a camada é o último fill visível de imagem ou gradiente
+  private async getBackgroundLayer(node: EmailNode, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<BackgroundLayer | null> {
+    if (!Array.isArray(node.fills)) return null;
+    const visibleFills = node.fills.filter(f => f.visible !== false);
+    const layerFill = visibleFills.filter(f => f.type === 'IMAGE' || f.type === 'GRADIENT_LINEAR' || f.type === 'GRADIENT_RADIAL').pop();
+    if (!layerFill) return null;
+
+    const width = Math.round(node.width);
+    const height = Math.round(node.height);
+    const solidFills = visibleFills.filter(f => f.type === 'SOLID');
+    const fallback = this.getEffectiveBackgroundColorForFills(solidFills.length > 0 ? solidFills : [layerFill], parentBgColor);
+    const fallbackStyle: HtmlStyle = fallback.hex ? { 'background-color': fallback.hex } : {};
+    const fallbackVmlColor = fallback.hex ? ` color="${fallback.hex}"` : '';
+
+    if (layerFill.type === 'IMAGE') {
+      const imageUrl = await this.getBackgroundImageUrl(node, layerFill, imageExportMode);
+      if (!imageUrl) return null;
+      const fit = layerFill.scaleMode === 'FIT';
+      const tile = layerFill.scaleMode === 'TILE';
+      const style = {
+        ...fallbackStyle,
+        'background-image': `url('${imageUrl}')`,
+        'background-position': 'center',
+        'background-size': tile ? 'auto' : fit ? 'contain' : 'cover',
+        'background-repeat': tile ? 'repeat' : 'no-repeat',
+      };
+      // o VML vai como html pronto: a url precisa sair escapada aqui
+      const vmlFill = tile
+        ? `<v:fill type="tile" src="${escapeHtml(imageUrl)}"${fallbackVmlColor} />`
+        : `<v:fill type="frame" src="${escapeHtml(imageUrl)}" aspect="${fit ? 'atmost' : 'atleast'}"${fallbackVmlColor} />`;
+      return { fallbackHex: fallback.hex, fallbackRgb: fallback.rgb, style, imageUrl, vmlFill };
+    }
+
+    const gradientCss = this.getGradientCss(layerFill as GradientPaint, width, height);
+    if (!gradientCss) return null;
+    return {
+      fallbackHex: fallback.hex,
+      fallbackRgb: fallback.rgb,
+      style: { ...fallbackStyle, 'background-image': gradientCss },
+      imageUrl: null,
+      vmlFill: this.getGradientVmlFill(layerFill as GradientPaint, width, height),
+    };
+  }
+
+  private async getBackgroundImageUrl(node: EmailNode, paint: ImagePaint, mode: ImageExportMode): Promise<string | null> {
+    const width = Math.round(node.width);
+    const height = Math.round(node.height);
+    if (mode === 'placeholder' || !paint.imageHash) {
+      return `https://placehold.co/${width}x${height}/EFEFEF/7F7F7F?text=${width}x${height}`;
+    }
+    try {
+      const bytes = await this.getImageFillExport(paint.imageHash);
+      const isPng = bytes[0] === 0x89 && bytes[1] === 0x50;
+      const mimeType = isPng ? 'image/png' : 'image/jpeg';
+      if (mode === 'base64') {
+        this.addWarning(node, 'warning', 'Background image embedded as base64; Gmail and Outlook.com block data URIs and it inflates the HTML size.');
+        return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+      }
+      return this.assetBaseUrl + this.registerAsset(node, bytes, isPng ? 'png' : 'jpg', mimeType);
+    } catch (e) {
+      // cancelar não é falha de exportação: tem que parar a conversão, não sumir com o fundo
+      if (e instanceof ConversionCancelledError) throw e;
+      return null;
+    }
+  }
+
+  // texto continua html de verdade por cima do fundo; o outlook só desenha o fundo via <v:rect>
+  private usesLiteralWidth(node: EmailNode): boolean {
+    return this.useLiteralWidth || !!node.overrides.literalWidth;
+  }
+
+  private wrapWithBackgroundLayer(content: HtmlNode[], background: BackgroundLayer, width: number, height: number, radiusStyle: HtmlStyle | null, literalWidth: boolean): HtmlNode[] {
+    const vmlOpen = `<!--[if gte mso 9]><v:rect xmlns:v="urn:schemas-microsoft-com:vml" fill="true" stroke="false" style="width:${width}px;height:${height}px;">${background.vmlFill}<v:textbox inset="0,0,0,0"><![endif]-->`;
+    const vmlClose = `<!--[if gte mso 9]></v:textbox></v:rect><![endif]-->`;
+    const cell = htmlElement('td', { valign: 'top', height, background: background.imageUrl, bgcolor: background.fallbackHex }, { ...background.style, ...radiusStyle }, [
+      htmlRaw(vmlOpen, true),
+      htmlElement('div', {}, {}, content),
+      htmlRaw(vmlClose, true),
+    ]);
+    return [htmlTable({ width: literalWidth ? width : '100%' }, {}, [htmlRow([cell])])];
+  }
+
+  private isImageLikeNode(node: EmailNode): boolean {
+    const cached = this.imageLikeCache.get(node);
+    if (cached !== undefined) return cached;
+    const imageLike = this.computeImageLike(node);
+    this.imageLikeCache.set(node, imageLike);
+    return imageLike;
+  }
+
+  private computeImageLike(node: EmailNode): boolean {
+    if (this.inferredRowIds.has(node.id)) return false;
+    if (this.rasterizedNodeIds.has(node.id)) return true;
+    const hasImageFill = Array.isArray(node.fills) && node.fills.some((f) => f.type === "IMAGE");
+    if ((node.type === "RECTANGLE" || node.type === "ELLIPSE") && hasImageFill) return true;
+    // frame só com a foto de fundo, sem conteúdo por cima
+    if (hasImageFill && node.children.length === 0) return true;
+    if (["VECTOR", "LINE"].indexOf(node.type) !== -1) return true;
+    if (node.children.length > 0) {
+      return node.children.every(child => child.type !== "TEXT" && this.isImageLikeNode(child));
+    }
+    return false;
+  }
+
+  // container que renderiza os filhos (os outros saem inteiros: imagem, botão, bullet, html próprio)
+  private isLayoutContainer(node: EmailNode): boolean {
+    if (["FRAME", "GROUP", "COMPONENT", "INSTANCE"].indexOf(node.type) === -1 || node.overrides.rawHtml) return false;
+    return !this.isImageLikeNode(node) && !isBulletPoint(node) && !this.isButtonLikeNode(node);
+  }
+
+  private async renderNode(node: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    return this.renderInEspBlock(node, async () => {
+      const content = this.isPartialInstance(node)
+        ? await this.renderPartialInclude(node, parentWidth, parentBgColor, imageExportMode)
+        : await this.renderNodeContent(node, parentWidth, parentBgColor, imageExportMode);
+      return this.wrapWithPropertyCondition(node, content);
+    });
+  }
+
+  private async renderNodeContent(node: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    if (!node.visible) return [];
+    if (node.opacity === 0) return [];
+    await this.checkpoint(node, !this.isLayoutContainer(node));
+    if (node.overrides.rawHtml) return [htmlRaw(node.overrides.rawHtml, true)];
+
+    if (this.isImageLikeNode(node)) return this.renderImage(node, parentWidth, imageExportMode);
+
+    switch (node.type) {
+      case "FRAME":
+      case "GROUP":
+      case "COMPONENT":
+      case "INSTANCE": {
+        if (isBulletPoint(node)) return this.renderBulletPoint(node, parentBgColor);
+        if (this.isButtonLikeNode(node)) return this.renderButton(node, parentBgColor);
+        const container = await this.renderContainer(node, parentWidth, parentBgColor, false, imageExportMode);
+        const link = this.getNodeLink(node);
+        if (container.length === 0 || !link) return container;
+        return [buildLinkElement(link, { display: 'block', 'text-decoration': 'none' }, container)];
+      }
+      case "RECTANGLE":
+      case "ELLIPSE":
+        return this.renderShape(node, parentBgColor);
+      case "TEXT":
+        return this.renderText(node, parentBgColor);
+      default:
+        return [];
+    }
+  }
+
+  private async getStackedRows(parentNode: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const children = parentNode.children.filter(c => c.visible);
+    if (parentNode.layoutMode !== 'VERTICAL') {
+      children.sort((a, b) => a.y - b.y);
+    }
+
+    if (children.length === 0) return [];
+
+    const paddingLeft = parentNode.paddingLeft;
+    const paddingRight = parentNode.paddingRight;
+    const paddingTop = parentNode.paddingTop;
+    const availableWidth = parentWidth - paddingLeft - paddingRight;
+
+    // --- otimização: desenrola filho único ---
+    if (children.length === 1) {
+      const child = children[0];
+      const verticalGap = Math.round(child.y - paddingTop);
+
+      if (paddingLeft === 0 && paddingRight === 0 && verticalGap <= 2) {
+        const childContent = await this.renderNode(child, availableWidth, parentBgColor, imageExportMode);
+        return childContent.length > 0 ? [htmlRow([htmlElement('td', {}, {}, childContent)])] : [];
+      }
+    }
+
+    const { left: spacerLeft, right: spacerRight } = this.getInnerPadding(parentNode);
+    const colSpan = 1 + (spacerLeft > 0 ? 1 : 0) + (spacerRight > 0 ? 1 : 0);
+    const rows: HtmlNode[] = [];
+    let lastBottomY = paddingTop;
+
+    // cada linha ganha as próprias células de recuo (elemento da árvore não pode aparecer em dois lugares)
+    const gutterCell = (width: number) => htmlElement('td', { class: 'gutter', width }, { width: `${width}px` }, [htmlRaw('&nbsp;')]);
+    const withGutters = (cell: HtmlElement) => htmlRow([
+      ...(spacerLeft > 0 ? [gutterCell(spacerLeft)] : []),
+      cell,
+      ...(spacerRight > 0 ? [gutterCell(spacerRight)] : []),
+    ]);
+
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
+      const verticalGap = Math.round(child.y - lastBottomY);
+      if (verticalGap > 2) {
+        rows.push(htmlSpacerRow(verticalGap, colSpan));
+      }
+
+      if (this.isTextRow(child)) {
+        const textGroup: EmailNode[] = [child];
+        let j = i + 1;
+        while (j < children.length && this.isTextRow(children[j])) {
+          textGroup.push(children[j]);
+          j++;
+        }
+
+        const textRows: HtmlNode[] = [];
+        let lastTextNodeInGroupBottomY = child.y;
+
+        for (const [index, textNode] of textGroup.entries()) {
+          const gapWithinGroup = Math.round(textNode.y - lastTextNodeInGroupBottomY);
+          if (index > 0 && gapWithinGroup > 2) {
+            textRows.push(htmlSpacerRow(gapWithinGroup));
+          }
+          const textCell = this.renderTextCell(textNode, parentBgColor);
+          // mesmo sem passar pelo renderNode, o texto ligado a uma propriedade BOOLEAN sai dentro do if do partial
+          if (textCell) textRows.push(...this.wrapWithPropertyCondition(textNode, [htmlRow([textCell])]));
+          lastTextNodeInGroupBottomY = textNode.y + textNode.height;
+        }
+
+        if (spacerLeft === 0 && spacerRight === 0) {
+          rows.push(...textRows);
+        } else {
+          rows.push(withGutters(htmlElement('td', {}, {}, [htmlTable({ width: '100%' }, {}, textRows)])));
+        }
+
+        i = j - 1;
+        lastBottomY = lastTextNodeInGroupBottomY;
+      } else {
+        const childContent = await this.renderNode(child, availableWidth, parentBgColor, imageExportMode);
+        if (childContent.length > 0) {
+          // se for imagem, aplica a largura no TD pra garantir compatibilidade
+          const cellAttributes: HtmlAttributes = {};
+          const cellStyle: HtmlStyle = {};
+          if (this.isImageLikeNode(child)) {
+            const imgWidth = Math.min(Math.round(child.width), availableWidth);
+            cellAttributes['width'] = imgWidth;
+            cellStyle['width'] = `${imgWidth}px`;
+            // no auto layout vertical o eixo cruzado é o horizontal: imagem centralizada no pai centraliza o TD
+            if (parentNode.layoutMode === 'VERTICAL' && parentNode.counterAxisAlignItems === 'CENTER') {
+              cellAttributes['align'] = 'center';
+            }
+          }
+          rows.push(withGutters(htmlElement('td', cellAttributes, cellStyle, childContent)));
+        }
+        lastBottomY = child.y + child.height;
+      }
+    }
+    return rows;
+  }
+
+  private async renderStackedChildren(parentNode: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const rows = await this.getStackedRows(parentNode, parentWidth, parentBgColor, imageExportMode);
+    if (rows.length === 0) return [];
+    return [htmlTable({ width: '100%' }, {}, rows)];
+  }
+
+  private async renderContainer(node: EmailNode, parentWidth: number, parentBgColor: RgbColor, isRoot: boolean, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    await this.checkpoint(node, false);
+    const background = await this.getBackgroundLayer(node, parentBgColor, imageExportMode);
+    const table = await this.renderContainerTable(node, parentWidth, parentBgColor, isRoot, imageExportMode, background);
+    if (!background || table.length === 0) return table;
+    const width = isRoot ? parentWidth : Math.min(node.width, parentWidth);
+    return this.wrapWithBackgroundLayer(table, background, Math.round(width), Math.round(node.height), this.getBorderRadiusStyle(node), this.usesLiteralWidth(node));
+  }
+
+  private async renderContainerTable(node: EmailNode, parentWidth: number, parentBgColor: RgbColor, isRoot: boolean, imageExportMode: ImageExportMode, background: BackgroundLayer | null): Promise<HtmlNode[]> {
+    // com camada de fundo, a cor vai pra célula de fora; a tabela fica transparente por cima
+    const { hex: bgColorHex, rgb: effectiveBgRgb } = background
+      ? { hex: null, rgb: background.fallbackRgb }
+      : this.getEffectiveBackgroundColor(node, parentBgColor);
+    const children = node.children.filter(c => c.visible);
+    const borderStyle = this.getBorderStyle(node);
+    if (children.length === 0 && !bgColorHex && !background && !borderStyle) return [];
+
+    const layoutMode = node.layoutMode;
+    const innerPadding = this.getInnerPadding(node);
+    const paddingTop = innerPadding.top;
+    const paddingBottom = innerPadding.bottom;
+
+    // cantos arredondados na tabela só funcionam com border-collapse separate
+    const radiusStyle = background ? null : this.getBorderRadiusStyle(node);
+    const boxStyle: HtmlStyle = {
+      ...(bgColorHex ? { 'background-color': bgColorHex } : {}),
+      ...borderStyle,
+      ...(radiusStyle ? { 'border-collapse': 'separate', overflow: 'hidden', ...radiusStyle } : {}),
+    };
+    const hasBoxStyle = Object.keys(boxStyle).length > 0;
+
+    const width = isRoot ? parentWidth : Math.min(node.width, parentWidth);
+    // lógica de largura: literal vs padrão (100%)
+    const literalWidth = this.usesLiteralWidth(node);
+    const tableAttributes: HtmlAttributes = {
+      width: literalWidth ? width : '100%',
+      bgcolor: bgColorHex,
+      class: this.darkModeClassName({ background: bgColorHex, border: borderStyle ? this.getBorderColorHex(node) : null }),
+    };
+    const tableStyle: HtmlStyle = !literalWidth && hasBoxStyle ? { width: '100%', ...boxStyle } : boxStyle;
+
+    // --- otimização: junta wrapper e conteudo em layout vertical ---
+    if (layoutMode !== "HORIZONTAL") { // empilhado
+      if (children.length === 1 && !bgColorHex && !background && !borderStyle) {
+        const paddingLeft = node.paddingLeft;
+        const paddingRight = node.paddingRight;
+        const childGap = children[0].y - paddingTop;
+
+        if (paddingLeft === 0 && paddingRight === 0 && childGap <= 2 && paddingTop === 0 && paddingBottom === 0 && !isRoot) {
+          return this.renderNode(children[0], parentWidth, parentBgColor, imageExportMode);
+        }
+      }
+
+      const rows = await this.getStackedRows(node, parentWidth, effectiveBgRgb, imageExportMode);
+      if (rows.length === 0 && !bgColorHex && !background && !borderStyle) return [];
+
+      const colSpan = 1 + (innerPadding.left > 0 ? 1 : 0) + (innerPadding.right > 0 ? 1 : 0);
+      return [htmlTable(tableAttributes, tableStyle, [
+        ...(paddingTop > 0 ? [htmlSpacerRow(paddingTop, colSpan)] : []),
+        ...rows,
+        ...(paddingBottom > 0 ? [htmlSpacerRow(paddingBottom, colSpan)] : []),
+      ])];
+    }
+
+    // --- layout horizontal ---
+    const frameNode = node;
+    const horizontalChildren = frameNode.children.filter((c) => c.visible !== false);
+    const paddingLeft = innerPadding.left;
+    const paddingRight = innerPadding.right;
+
+    const responsiveMode = this.getResponsiveMode(frameNode);
+    if (responsiveMode === 'hybrid') {
+      return this.renderHybridColumns(frameNode, horizontalChildren, width, tableAttributes, tableStyle, effectiveBgRgb, imageExportMode);
+    }
+    const stackCells = responsiveMode === 'stack' && horizontalChildren.length > 1;
+    if (stackCells) this.usesStackClasses = true;
+
+    // FILL/layoutGrow vira % da tabela; o resto fica com a largura fixa do figma
+    const isFillChild = (child: EmailNode) => child.layoutSizingHorizontal === 'FILL' || child.layoutGrow > 0;
+    const hasFillChild = horizontalChildren.some(isFillChild);
+    const fillPercentages = hasFillChild ? this.getFillPercentages(horizontalChildren.filter(isFillChild), width) : new Map<EmailNode, number>();
+    const spacingTotal = horizontalChildren.slice(0, -1).reduce((total, _child, index) => total + this.getColumnGap(frameNode, horizontalChildren, index), 0);
+    const childrenTotal = horizontalChildren.reduce((total, child) => total + Math.round(child.width), 0);
+    const leftover = Math.round(width - paddingLeft - paddingRight - childrenTotal - spacingTotal);
+
+    // linha inferida (quebra do auto layout ou frame sem auto layout): cada célula fica na largura do design,
+    // senão a tabela divide o espaço pelo conteúdo e as linhas quebradas saem desalinhadas entre si
+    const isInferredRow = this.inferredRowIds.has(frameNode.id);
+    // sobra de largura sem filho FILL: células vazias sem largura seguram o alinhamento do eixo principal
+    const primaryAlign = hasFillChild || leftover <= 1 ? null : frameNode.primaryAxisAlignItems;
+    const gutterClass = stackCells ? 'stack-gutter' : null;
+    const fillerCell = () => htmlElement('td', { class: gutterClass }, { 'font-size': '0', 'line-height': '0' }, [htmlRaw('&nbsp;')]);
+    const fixedCell = (cellWidth: number, className: string | null = null) =>
+      htmlElement('td', { class: className, width: cellWidth }, { width: `${cellWidth}px` }, [htmlRaw('&nbsp;')]);
+
+    const cells: HtmlElement[] = [];
+    if (paddingLeft > 0) cells.push(fixedCell(paddingLeft));
+    if (primaryAlign === 'CENTER' || primaryAlign === 'MAX') cells.push(fillerCell());
+
+    let valign = "top";
+    if (frameNode.counterAxisAlignItems === 'CENTER') valign = 'middle';
+    if (frameNode.counterAxisAlignItems === 'MAX') valign = 'bottom';
+
+    for (const [index, child] of horizontalChildren.entries()) {
+      const childContent = await this.renderNode(child, child.width, effectiveBgRgb, imageExportMode);
+      const cellAttributes: HtmlAttributes = { class: stackCells ? 'stack-column' : null, valign };
+      const cellStyle: HtmlStyle = {};
+      const fillPercentage = fillPercentages.get(child);
+      if (fillPercentage !== undefined) {
+        cellAttributes['width'] = `${fillPercentage}%`;
+        cellStyle['width'] = `${fillPercentage}%`;
+      } else if (this.isImageLikeNode(child) || hasFillChild || primaryAlign || isInferredRow) {
+        const cellWidth = Math.round(child.width);
+        cellAttributes['width'] = cellWidth;
+        cellStyle['width'] = `${cellWidth}px`;
+      }
+      cells.push(htmlElement('td', cellAttributes, cellStyle, childContent));
+
+      if (index < horizontalChildren.length - 1) {
+        const columnGap = this.getColumnGap(frameNode, horizontalChildren, index);
+        if (primaryAlign === 'SPACE_BETWEEN') {
+          cells.push(fillerCell());
+        } else if (columnGap > 0) {
+          cells.push(fixedCell(columnGap, gutterClass));
+        }
+      }
+    }
+
+    const hasTrailingFiller = primaryAlign === 'CENTER' || primaryAlign === 'MIN' || (primaryAlign === 'SPACE_BETWEEN' && horizontalChildren.length === 1);
+    if (hasTrailingFiller) cells.push(fillerCell());
+    if (paddingRight > 0) cells.push(fixedCell(paddingRight));
+    const colSpan = cells.length;
+
+    // dir="rtl" inverte a ordem das células na tela; no html elas continuam na ordem de leitura do design
+    return [htmlTable({ ...tableAttributes, dir: this.rtl ? 'rtl' : null }, tableStyle, [
+      ...(paddingTop > 0 ? [htmlSpacerRow(paddingTop, colSpan)] : []),
+      htmlRow(cells),
+      ...(paddingBottom > 0 ? [htmlSpacerRow(paddingBottom, colSpan)] : []),
+    ])];
+  }
+
+  // auto layout usa o itemSpacing; space-between e linha inferida usam a distância real entre os filhos
+  private getColumnGap(frameNode: EmailNode, children: EmailNode[], index: number): number {
+    if (!this.inferredRowIds.has(frameNode.id) && frameNode.primaryAxisAlignItems !== 'SPACE_BETWEEN') return Math.round(frameNode.itemSpacing);
+    const current = children[index];
+    const next = children[index + 1];
+    return Math.max(0, Math.round(next.x - current.x - current.width));
+  }
+
+  // % de cada filho FILL sobre a largura da tabela; o último fica com o arredondamento pra soma fechar
+  private getFillPercentages(fillChildren: EmailNode[], tableWidth: number): Map<EmailNode, number> {
+    const percentages = new Map<EmailNode, number>();
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const total = round(fillChildren.reduce((sum, child) => sum + child.width, 0) / tableWidth * 100);
+    let assigned = 0;
+    fillChildren.forEach((child, index) => {
+      const percentage = index === fillChildren.length - 1 ? round(total - assigned) : round(child.width / tableWidth * 100);
+      percentages.set(child, percentage);
+      assigned += percentage;
+    });
+    return percentages;
+  }
+
+  // --- inferência de layout: frame/grupo sem auto layout vira linhas e colunas pelas caixas dos filhos ---
+  private inferLayout(node: EmailNode): EmailNode {
+    const inferred: EmailNode = { ...node, children: node.children.filter(child => !child.overrides.skip).map(child => this.inferLayout(child)) };
+    if (node.overrides.rasterize) {
+      this.rasterizedNodeIds.add(node.id);
+      this.imageLikeCache.clear();
+      return inferred;
+    }
+    const isContainer = ["FRAME", "GROUP", "COMPONENT", "INSTANCE"].indexOf(node.type) !== -1;
+    if (!isContainer || this.isImageLikeNode(inferred)) return inferred;
+    if (node.layoutMode === 'HORIZONTAL' && node.layoutWrap === 'WRAP') return this.splitWrappedRows(inferred);
+    if (node.layoutMode !== 'NONE') return inferred;
+
+    let visibleChildren = inferred.children.filter(c => c.visible && c.opacity !== 0);
+    if (visibleChildren.length < 2) return inferred;
+
+    // retângulo mais ao fundo cobrindo o frame inteiro é o fundo do próprio frame
+    const backmost = visibleChildren[0];
+    const coversFrame = backmost.x <= 1 && backmost.y <= 1 && backmost.x + backmost.width >= node.width - 1 && backmost.y + backmost.height >= node.height - 1;
+    const hasOwnFill = Array.isArray(node.fills) && node.fills.some(f => f.visible !== false);
+    if (backmost.type === 'RECTANGLE' && coversFrame && !hasOwnFill) {
+      inferred.fills = backmost.fills;
+      if (!this.getBorderStyle(node)) {
+        const { strokes, strokeWeight, strokeTopWeight, strokeRightWeight, strokeBottomWeight, strokeLeftWeight, strokeAlign, dashPattern } = backmost;
+        Object.assign(inferred, { strokes, strokeWeight, strokeTopWeight, strokeRightWeight, strokeBottomWeight, strokeLeftWeight, strokeAlign, dashPattern });
+      }
+      if (!this.hasCornerRadius(node)) {
+        const { cornerRadius, topLeftRadius, topRightRadius, bottomRightRadius, bottomLeftRadius } = backmost;
+        Object.assign(inferred, { cornerRadius, topLeftRadius, topRightRadius, bottomRightRadius, bottomLeftRadius });
+      }
+      inferred.children = inferred.children.filter(c => c !== backmost);
+      visibleChildren = visibleChildren.slice(1);
+      if (visibleChildren.length < 2) return inferred;
+    }
+
+    // sobreposição não vira tabela: o frame inteiro sai como imagem
+    const overlaps = (a: EmailNode, b: EmailNode) =>
+      Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > 1 && Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) > 1;
+    for (let i = 0; i < visibleChildren.length; i++) {
+      for (let j = i + 1; j < visibleChildren.length; j++) {
+        if (!overlaps(visibleChildren[i], visibleChildren[j])) continue;
+        this.addWarning(node, 'warning', `Layers "${visibleChildren[i].name}" and "${visibleChildren[j].name}" overlap; the frame was exported as a single image.`);
+        this.rasterizedNodeIds.add(node.id);
+        this.imageLikeCache.clear();
+        return inferred;
+      }
+    }
+
+    const bands = this.groupIntoBands(visibleChildren);
+    if (bands.every(band => band.length === 1)) return inferred;
+
+    inferred.children = bands.map((band, index) => band.length === 1 ? band[0] : this.createInferredRow(inferred, band, index));
+    return inferred;
+  }
+
+  // faixas horizontais: filhos que dividem alguma altura ficam na mesma linha
+  private groupIntoBands(children: EmailNode[]): EmailNode[][] {
+    const bands: EmailNode[][] = [];
+    let bandBottom = 0;
+    for (const child of [...children].sort((a, b) => a.y - b.y)) {
+      if (bands.length > 0 && child.y < bandBottom - 1) {
+        bands[bands.length - 1].push(child);
+        bandBottom = Math.max(bandBottom, child.y + child.height);
+      } else {
+        bands.push([child]);
+        bandBottom = child.y + child.height;
+      }
+    }
+    return bands;
+  }
+
+  // auto layout com quebra: o Figma já posicionou cada linha dentro da largura do frame;
+  // vira uma pilha de linhas horizontais e o counterAxisSpacing sai do y de cada uma
+  private splitWrappedRows(node: EmailNode): EmailNode {
+    const bands = this.groupIntoBands(node.children.filter(c => c.visible && c.opacity !== 0));
+    if (bands.length < 2) return node;
+    return { ...node, layoutMode: 'NONE', children: bands.map((band, index) => this.createInferredRow(node, band, index)) };
+  }
+
+  // linha virtual em auto layout horizontal; o recuo até o padding do pai vira padding da linha
+  private createInferredRow(parentNode: EmailNode, band: EmailNode[], index: number): EmailNode {
+    const columns = [...band].sort((a, b) => a.x - b.x);
+    const top = Math.min(...columns.map(c => c.y));
+    const bottom = Math.max(...columns.map(c => c.y + c.height));
+    const right = Math.max(...columns.map(c => c.x + c.width));
+    const isAlignedOn = (edge: (c: EmailNode) => number) => columns.every(c => Math.abs(edge(c) - edge(columns[0])) <= 1);
+    const counterAxisAlignItems = isAlignedOn(c => c.y) ? 'MIN'
+      : isAlignedOn(c => c.y + c.height / 2) ? 'CENTER'
+        : isAlignedOn(c => c.y + c.height) ? 'MAX' : 'MIN';
+
+    const row = createEmailNode({
+      id: `${parentNode.id}#row${index + 1}`,
+      name: `${parentNode.name} (row ${index + 1})`,
+      type: 'FRAME',
+      x: parentNode.paddingLeft,
+      y: top,
+      width: parentNode.width - parentNode.paddingLeft - parentNode.paddingRight,
+      height: bottom - top,
+      layoutMode: 'HORIZONTAL',
+      paddingLeft: Math.max(0, Math.round(columns[0].x - parentNode.paddingLeft)),
+      paddingRight: Math.max(0, Math.round(parentNode.width - parentNode.paddingRight - right)),
+      counterAxisAlignItems,
+      children: columns.map(c => ({ ...c, x: c.x - parentNode.paddingLeft, y: c.y - top })),
+    });
+    this.inferredRowIds.add(row.id);
+    return row;
+  }
+
+  // --- responsividade: empilhamento de colunas no mobile ---
+  // flags no nome da layer: [stack], [hybrid] ou [no-stack]
+  private getResponsiveMode(node: EmailNode): ResponsiveMode {
+    const name = node.name.toLowerCase();
+    if (name.includes('[no-stack]')) return 'off';
+    if (name.includes('[hybrid]')) return 'hybrid';
+    if (name.includes('[stack]')) return this.responsiveMode === 'off' ? 'stack' : this.responsiveMode;
+    return this.responsiveMode;
+  }
+
+  // colunas inline-block com tabela "ghost" pro Outlook; empilha sozinho mesmo sem <style>
+  private async renderHybridColumns(frameNode: EmailNode, children: EmailNode[], width: number, tableAttributes: HtmlAttributes, tableStyle: HtmlStyle, effectiveBgRgb: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const innerPadding = this.getInnerPadding(frameNode);
+    const { top: paddingTop, bottom: paddingBottom } = innerPadding;
+    // no rtl o recuo do começo da linha fica do lado direito
+    const [paddingLeft, paddingRight] = this.rtl ? [innerPadding.right, innerPadding.left] : [innerPadding.left, innerPadding.right];
+    const innerWidth = Math.round(width - frameNode.paddingLeft - frameNode.paddingRight);
+
+    let verticalAlign = "top";
+    if (frameNode.counterAxisAlignItems === 'CENTER') verticalAlign = 'middle';
+    if (frameNode.counterAxisAlignItems === 'MAX') verticalAlign = 'bottom';
+    let primaryAlign = "left";
+    if (frameNode.primaryAxisAlignItems === 'CENTER') primaryAlign = 'center';
+    if (frameNode.primaryAxisAlignItems === 'MAX') primaryAlign = 'right';
+    const textAlign = this.mirrorAlign(primaryAlign);
+
+    this.usesStackClasses = true;
+    // centralizado/no fim, a tabela ghost fica do tamanho das colunas e o align posiciona
+    const ghostTableSize = primaryAlign === 'left' ? `width="${innerWidth}"` : `align="${textAlign}"`;
+    const ghostTableDir = this.rtl ? ' dir="rtl"' : '';
+    const parts: HtmlNode[] = [htmlRaw(`<!--[if mso]><table ${ghostTableSize}${ghostTableDir} cellpadding="0" cellspacing="0" border="0" role="presentation"><tr><![endif]-->`, true)];
+
+    for (const [index, child] of children.entries()) {
+      const columnWidth = Math.round(child.width);
+      const childContent = await this.renderNode(child, columnWidth, effectiveBgRgb, imageExportMode);
+      parts.push(htmlRaw(`<!--[if mso]><td valign="${verticalAlign}" width="${columnWidth}"><![endif]-->`, true));
+      parts.push(htmlElement('div', { class: 'stack-column' }, { display: 'inline-block', width: '100%', 'max-width': `${columnWidth}px`, 'vertical-align': verticalAlign }, childContent));
+      parts.push(htmlRaw('<!--[if mso]></td><![endif]-->', true));
+
+      const columnGap = index < children.length - 1 ? this.getColumnGap(frameNode, children, index) : 0;
+      if (columnGap > 0) {
+        parts.push(htmlRaw(`<!--[if mso]><td width="${columnGap}">&nbsp;</td><![endif]-->`, true));
+        parts.push(htmlRaw('<!--[if !mso]><!-- -->', true));
+        parts.push(htmlElement('div', { class: 'stack-gutter' }, { display: 'inline-block', width: `${columnGap}px`, 'font-size': '1px', 'line-height': '1px' }, [htmlRaw('&nbsp;')]));
+        parts.push(htmlRaw('<!--<![endif]-->', true));
+      }
+    }
+    parts.push(htmlRaw('<!--[if mso]></tr></table><![endif]-->', true));
+
+    // font-size:0 no td tira o espaço em branco entre os inline-blocks
+    const cellStyle: HtmlStyle = { 'font-size': '0', 'text-align': textAlign };
+    if (paddingLeft > 0 || paddingRight > 0) cellStyle['padding'] = `0 ${paddingRight}px 0 ${paddingLeft}px`;
+    return [htmlTable({ ...tableAttributes, dir: this.rtl ? 'rtl' : null }, tableStyle, [
+      ...(paddingTop > 0 ? [htmlSpacerRow(paddingTop)] : []),
+      htmlRow([htmlElement('td', { align: textAlign }, cellStyle, parts)]),
+      ...(paddingBottom > 0 ? [htmlSpacerRow(paddingBottom)] : []),
+    ])];
+  }
+
+  public getHeadStyles(): string {
+    const stackStyles = this.usesStackClasses ? [
+      `@media only screen and (max-width: ${this.responsiveBreakpoint}px) {`,
+      '  .stack-column { display:block !important; width:100% !important; max-width:100% !important; box-sizing:border-box; }',
+      '  .stack-gutter { display:none !important; width:0 !important; height:0 !important; overflow:hidden; }',
+      '  .stack-column img { max-width:100% !important; height:auto !important; }',
+      '}',
+    ].join('\n') : "";
+    return [stackStyles, this.getDarkModeStyles()].filter(Boolean).join('\n');
+  }
+
+  // texto com html próprio ou exportado como imagem sai pelo renderNode, igual aos outros filhos
+  private isTextRow(node: EmailNode): boolean {
+    return node.type === 'TEXT' && !node.overrides.rawHtml && !this.isImageLikeNode(node);
+  }
+
+  // célula de texto: o estilo mais usado no td, os trechos diferentes em spans dentro
+  private renderTextCell(node: EmailNode, parentBgColor: RgbColor): HtmlElement | null {
+    const { baseStyle, content } = this.processTextNode(node, parentBgColor, true, this.getTextTag(node));
+    if (content.length === 0) return null;
+    const textAlign = this.mirrorAlign((node.textAlignHorizontal || 'LEFT').toLowerCase());
+    const cellAttributes = {
+      align: textAlign,
+      ...this.getTextCellAttributes(node),
+      class: this.darkModeClassName({ color: baseStyle['color'], border: this.getBorderColorHex(node) }),
+    };
+    return htmlElement('td', cellAttributes, { 'text-align': textAlign, ...baseStyle, ...this.getBorderStyle(node) }, content);
+  }
+
+  private async renderText(node: EmailNode, parentBgColor: RgbColor): Promise<HtmlNode[]> {
+    if (!node.characters?.trim()) return [];
+    const textCell = this.renderTextCell(node, parentBgColor);
+    return textCell ? [htmlTable({ width: '100%' }, {}, [htmlRow([textCell])])] : [];
+  }
+
+  private async renderBulletPoint(node: EmailNode, parentBgColor: RgbColor): Promise<HtmlNode[]> {
+    const bulletNode = node.children[0];
+    const textNode = node.children[1];
+    const itemSpacing = node.itemSpacing;
+
+    const { baseStyle: bulletBaseStyle, content: bulletContent } = this.processTextNode(bulletNode, parentBgColor);
+    const { baseStyle: textBaseStyle, content: textContent } = this.processTextNode(textNode, parentBgColor);
+
+    return [htmlTable({ width: '100%' }, {}, [htmlRow([
+      htmlElement('td', { class: this.darkModeClassName({ color: bulletBaseStyle['color'] }), valign: 'top' }, { width: '1%', ...bulletBaseStyle }, bulletContent),
+      htmlElement('td', { width: itemSpacing }, { width: `${itemSpacing}px` }, [htmlRaw('&nbsp;')]),
+      htmlElement('td', { class: this.darkModeClassName({ color: textBaseStyle['color'] }), valign: 'top' }, textBaseStyle, textContent),
+    ])])];
+  }
+
+  // --- botões (bulletproof + VML pro Outlook) ---
+  private findVisibleText(node: EmailNode): EmailNode | null {
+    for (const child of node.children) {
+      if (!child.visible) continue;
+      if (child.type === 'TEXT') return child;
+      const found = this.findVisibleText(child);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private isButtonLikeNode(node: EmailNode): boolean {
+    if (node.type !== "FRAME" && node.type !== "COMPONENT" && node.type !== "INSTANCE") return false;
+    const children = node.children.filter(c => c.visible);
+    if (children.length === 0) return false;
+
+    // nome bate com o padrão configurado: basta ter algum texto dentro
+    if (this.buttonNameRegex && this.buttonNameRegex.test(node.name)) {
+      return this.findVisibleText(node) !== null;
+    }
+
+    if (children.length !== 1 || children[0].type !== 'TEXT' || !children[0].characters.trim()) return false;
+    const hasSolidFill = Array.isArray(node.fills) && node.fills.some((f) => f.type === 'SOLID' && f.visible !== false);
+    if (!hasSolidFill) return false;
+    // foto por cima da cor é fundo de seção (hero), não botão
+    if (node.fills && node.fills.some((f) => f.type === 'IMAGE' && f.visible !== false)) return false;
+
+    const hasPadding = node.paddingTop > 0 || node.paddingRight > 0 || node.paddingBottom > 0 || node.paddingLeft > 0;
+    return this.hasCornerRadius(node) || hasPadding;
+  }
+
+  private getButtonLink(node: EmailNode, labelNode: EmailNode): string {
+    const reactionLink = this.getNodeLink(node) || this.getNodeLink(labelNode);
+    if (reactionLink) return reactionLink.url;
+    const linkedSegment = labelNode.segments.find(s => s.hyperlink?.type === 'URL');
+    return this.translateMergeTags(linkedSegment?.hyperlink?.value || '#');
+  }
+
+  private getHorizontalAlignInParent(node: EmailNode): string {
+    const parent = this.parents.get(node);
+    if (!parent || parent.layoutMode !== 'VERTICAL') return this.mirrorAlign('left');
+    if (parent.counterAxisAlignItems === 'CENTER') return 'center';
+    if (parent.counterAxisAlignItems === 'MAX') return this.mirrorAlign('right');
+    return this.mirrorAlign('left');
+  }
+
+  private renderButton(node: EmailNode, parentBgColor: RgbColor): HtmlNode[] {
+    const labelNode = this.findVisibleText(node);
+    if (!labelNode) return [];
+    const { hex: bgColorHex, rgb: effectiveBgRgb } = this.getEffectiveBackgroundColor(node, parentBgColor);
+    const { baseStyle, content } = this.processTextNode(labelNode, effectiveBgRgb, false);
+    if (content.length === 0) return [];
+
+    const width = Math.round(node.width);
+    const height = Math.round(node.height);
+    const radius = Math.round(Math.max(node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius));
+    const radiusStyle = this.getBorderRadiusStyle(node);
+    const href = this.getButtonLink(node, labelNode);
+    const align = this.getHorizontalAlignInParent(node);
+
+    // padding do auto layout; sem auto layout, deduz pela posição do label
+    const isAutoLayout = node.layoutMode !== 'NONE';
+    const padTop = Math.round(isAutoLayout ? node.paddingTop : labelNode.y);
+    const padBottom = Math.round(isAutoLayout ? node.paddingBottom : node.height - labelNode.y - labelNode.height);
+    const padLeft = Math.round(isAutoLayout ? node.paddingLeft : labelNode.x);
+    const padRight = Math.round(isAutoLayout ? node.paddingRight : node.width - labelNode.x - labelNode.width);
+
+    const stroke = Array.isArray(node.strokes) ? node.strokes.find((s) => s.visible !== false && s.type === "SOLID") as SolidPaint | undefined : undefined;
+    const strokeWeight = typeof node.strokeWeight === 'number' ? Math.round(node.strokeWeight) : 0;
+    const strokeHex = stroke && strokeWeight > 0 ? this.getEffectiveBackgroundColorForFills([stroke], parentBgColor).hex : null;
+
+    // arcsize do VML é percentual sobre o menor lado
+    const arcSize = Math.min(50, Math.round((radius / Math.max(1, Math.min(width, height))) * 100));
+    const vmlStroke = strokeHex ? `strokecolor="${strokeHex}" strokeweight="${strokeWeight}px"` : 'stroke="f"';
+    const vmlFill = bgColorHex ? `fillcolor="${bgColorHex}"` : 'filled="f"';
+    const centerStyle: HtmlStyle = {};
+    ['color', 'font-family', 'font-size', 'font-weight', 'font-style', 'letter-spacing'].forEach(key => {
+      if (baseStyle[key]) centerStyle[key] = baseStyle[key];
+    });
+
+    // o roundrect só existe dentro do comentário condicional: sai como html pronto, com o estilo sempre inline
+    const vmlButton = `<!--[if mso]><v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" href="${escapeHtml(href)}" style="height:${height}px;v-text-anchor:middle;width:${width}px;" arcsize="${arcSize}%" ${vmlStroke} ${vmlFill}><w:anchorlock/>${serializeHtml([htmlElement('center', {}, centerStyle, content)], 'minified')}</v:roundrect><![endif]-->`;
+
+    const linkStyle: HtmlStyle = {
+      ...baseStyle,
+      display: 'inline-block',
+      padding: `${padTop}px ${padRight}px ${padBottom}px ${padLeft}px`,
+      'text-decoration': 'none',
+      ...radiusStyle,
+      ...this.getBorderStyle(node),
+    };
+    const link = htmlElement('a', { href, target: '_blank', class: this.darkModeClassName({ color: baseStyle['color'], border: this.getBorderColorHex(node) }) }, linkStyle, content);
+    const cellStyle: HtmlStyle = { ...(bgColorHex ? { 'background-color': bgColorHex } : {}), ...radiusStyle };
+    const cell = htmlElement('td', { align: 'center', class: this.darkModeClassName({ background: bgColorHex }), bgcolor: bgColorHex }, cellStyle, [link]);
+
+    // o Outlook desenha o roundrect; os demais clientes ficam com a tabela + <a>
+    return [
+      htmlRaw(vmlButton, true),
+      htmlRaw('<!--[if !mso]><!-- -->', true),
+      htmlTable({ align }, {}, [htmlRow([cell])]),
+      htmlRaw('<!--<![endif]-->', true),
+    ];
+  }
+
+  private renderShape(node: EmailNode, parentBgColor: RgbColor): HtmlNode[] {
+    const { width = 0, height = 0 } = node;
+    if (width < 1 || height < 1) return [];
+    const { hex: bgColorHex } = this.getEffectiveBackgroundColor(node, parentBgColor);
+    // divisor de uma borda só: a altura do td é o que sobra dentro da borda
+    const insets = this.getStrokeInsets(node);
+    const finalHeight = Math.max(0, Math.round(height) - insets.top - insets.bottom);
+    const cellStyle: HtmlStyle = {
+      ...(bgColorHex ? { 'background-color': bgColorHex } : {}),
+      height: `${finalHeight}px`,
+      'font-size': `${Math.min(finalHeight, 1)}px`,
+      'line-height': `${Math.min(finalHeight, 1)}px`,
+      ...this.getBorderStyle(node),
+      ...this.getBorderRadiusStyle(node),
+    };
+    const cell = htmlElement('td', { class: this.darkModeClassName({ background: bgColorHex, border: this.getBorderColorHex(node) }), bgcolor: bgColorHex }, cellStyle, [htmlRaw('&nbsp;')]);
+    return [htmlTable({ width: '100%', height: Math.round(height) }, {}, [htmlRow([cell])])];
+  }
+
+  private async renderImage(node: EmailNode, parentWidth: number, mode: ImageExportMode): Promise<HtmlNode[]> {
+    const { width, height } = node;
+    if (width < 1 || height < 1) return [];
+    const finalWidth = Math.min(Math.round(width), parentWidth);
+    const altText = this.getImageAlt(node);
+    const link = this.getNodeLink(node);
+    // imagem linkada precisa dos resets de borda/outline, senão alguns clientes desenham a borda azul
+    const imgStyle: HtmlStyle = link
+      ? { display: 'block', border: '0', outline: 'none', 'text-decoration': 'none', 'max-width': `${finalWidth}px`, height: 'auto', ...this.getBorderRadiusStyle(node) }
+      : { display: 'block', border: '0', 'max-width': `${finalWidth}px`, height: 'auto', ...this.getBorderRadiusStyle(node) };
+
+    this.checkImageAlt(node);
+    try {
+      const src = await this.getImageSrc(node, finalWidth, mode);
+      if (!src) return [];
+      const image = htmlElement('img', { src, width: finalWidth, alt: altText }, imgStyle);
+      return [link ? buildLinkElement(link, { 'text-decoration': 'none' }, [image]) : image];
+    } catch (e) {
+      if (e instanceof ConversionCancelledError) throw e;
+      return [htmlElement('p', {}, { color: 'red' }, [htmlText(`Error exporting image: ${altText || node.name}`)])];
+    }
+  }
+
+  private async getImageSrc(node: EmailNode, finalWidth: number, mode: ImageExportMode): Promise<string> {
+    if (mode === 'placeholder') {
+      return `https://placehold.co/${finalWidth}x${Math.round(node.height)}/EFEFEF/7F7F7F?text=${finalWidth}x${Math.round(node.height)}`;
+    }
+
+    const { bytes: imageBytes, format, report } = await this.getImageExport(node);
+    this.imageReport.push(report);
+    const mimeType = format === 'JPG' ? 'image/jpeg' : 'image/png';
+    if (mode === 'base64') {
+      this.addWarning(node, 'warning', 'Image embedded as base64; Gmail and Outlook.com block data URIs and it inflates the HTML size.');
+      return `data:${mimeType};base64,${bytesToBase64(imageBytes)}`;
+    }
+    if (mode === 'hosted') {
+      const assetName = this.registerAsset(node, imageBytes, format === 'JPG' ? 'jpg' : 'png', mimeType);
+      return this.assetBaseUrl + assetName;
+    }
+    return "";
+  }
+
+  // JPG só pra foto opaca (preenchimento de imagem sem recorte); vetor e transparência ficam em PNG
+  private resolveImageFormat(node: EmailNode): 'PNG' | 'JPG' {
+    if (this.imageFormat !== 'auto') return this.imageFormat;
+    const isOpaquePhoto = (n: EmailNode): boolean => {
+      if (n.opacity < 1) return false;
+      if (n.type === 'RECTANGLE') {
+        return !this.hasCornerRadius(n) && Array.isArray(n.fills) && n.fills.some(f => f.type === 'IMAGE' && f.visible !== false && (f.opacity ?? 1) >= 0.99);
+      }
+      const visibleChildren = n.children.filter(c => c.visible);
+      return visibleChildren.length > 0 && visibleChildren.every(isOpaquePhoto);
+    };
+    return isOpaquePhoto(node) ? 'JPG' : 'PNG';
+  }
+
+  // exporta no formato/escala configurados; com orçamento de bytes, baixa a qualidade e depois a escala até caber
+  private getImageExport(node: EmailNode): Promise<ExportedImage> {
+    let exported = this.imageExports.get(node.id);
+    if (!exported) {
+      exported = this.limitImageExport(() => this.monitor.isCancelled() ? Promise.reject(new ConversionCancelledError()) : this.exportImageWithinBudget(node));
+      // adiantada e nunca esperada (conversão cancelada, layer que acabou não virando imagem): sem rejeição solta
+      exported.catch(() => undefined);
+      this.imageExports.set(node.id, exported);
+    }
+    return exported;
+  }
+
+  private getImageFillExport(imageHash: string): Promise<Uint8Array> {
+    let exported = this.imageFillExports.get(imageHash);
+    if (!exported) {
+      exported = this.limitImageExport(() => this.monitor.isCancelled() ? Promise.reject(new ConversionCancelledError()) : this.imageExporter.exportImageFill(imageHash));
+      exported.catch(() => undefined);
+      this.imageFillExports.set(imageHash, exported);
+    }
+    return exported;
+  }
+
+  // começa as exportações de toda a árvore antes de renderizar; a ordem dos assets continua a da renderização
+  private prefetchImages(node: EmailNode, mode: ImageExportMode) {
+    if (mode === 'placeholder' || !node.visible || node.opacity === 0 || node.overrides.rawHtml) return;
+    if (this.isImageLikeNode(node)) {
+      if (node.width >= 1 && node.height >= 1) this.getImageExport(node);
+      return;
+    }
+    if (Array.isArray(node.fills)) {
+      node.fills.forEach(fill => {
+        if (fill.type === 'IMAGE' && fill.visible !== false && fill.imageHash) this.getImageFillExport(fill.imageHash);
+      });
+    }
+    node.children.forEach(child => this.prefetchImages(child, mode));
+  }
+
+  private async exportImageWithinBudget(node: EmailNode): Promise<ExportedImage> {
+    const format = this.resolveImageFormat(node);
+    const reencodeJpeg = format === 'JPG' ? this.imageExporter.reencodeJpeg : undefined;
+    const canReencode = !!reencodeJpeg;
+    let scale = this.imageScale;
+    let quality = this.jpgQuality;
+
+    const exportAt = async (exportScale: number, exportQuality: number) => {
+      const bytes = await this.imageExporter.exportImage(node.id, { format, constraint: { type: 'WIDTH', value: Math.round(node.width * exportScale) } });
+      if (!reencodeJpeg || exportQuality >= 100) return bytes;
+      return reencodeJpeg(bytes, exportQuality);
+    };
+
+    let bytes = await exportAt(scale, quality);
+    while (this.imageByteBudget > 0 && bytes.length > this.imageByteBudget) {
+      if (canReencode && quality > 40) {
+        quality -= 10;
+      } else if (scale > 1) {
+        scale -= 1;
+      } else {
+        break;
+      }
+      bytes = await exportAt(scale, quality);
+    }
+
+    const report: ImageExportReport = {
+      nodeId: node.id,
+      name: node.name,
+      format,
+      scale,
+      quality: canReencode ? quality : null,
+      byteSize: bytes.length,
+      overBudget: this.imageByteBudget > 0 && bytes.length > this.imageByteBudget,
+    };
+    return { bytes, format, report };
+  }
+
+  public getImageReport(): ImageExportReport[] {
+    return this.imageReport;
+  }
+
+  // --- ESP: merge tags e blocos condicionais/repetidos ---
+  private translateMergeTags(text: string): string {
+    if (this.espProfile === 'none') return text;
+    const syntax = espSyntaxes[this.espProfile];
+    const loop = this.currentEspLoop;
+    return text.replace(/\{\{\s*([a-zA-Z_][\w.]*)\s*\}\}/g, (_match, name: string) => {
+      const itemField = /^item\.(.+)$/.exec(name);
+      if (itemField && loop && loop.itemTag) return loop.itemTag(itemField[1]);
+      return loop && loop.outerTag ? loop.outerTag(name) : syntax.mergeTag(name);
+    });
+  }
+
+  private getNodeLink(node: EmailNode): NodeLink | null {
+    const link = node.overrides.link ? { url: node.overrides.link, openInNewTab: true } : node.reactionLink;
+    if (!link) return null;
+    return { ...link, url: this.translateMergeTags(link.url) };
+  }
+
+  // flag no nome da layer: [if nome] mostra só quando o campo existe, [each lista] repete o frame por item
+  private getEspBlock(node: EmailNode): EspBlock | null {
+    if (this.espProfile === 'none' || node.type === 'TEXT') return null;
+    const flag = /\[(if|each)[\s:]+([a-zA-Z_][\w.]*)\]/i.exec(node.name);
+    if (!flag) return null;
+    const syntax = espSyntaxes[this.espProfile];
+    if (flag[1].toLowerCase() === 'if') return syntax.ifBlock(flag[2]);
+    const block = syntax.eachBlock(flag[2]);
+    if (!block) this.addWarning(node, 'warning', `${this.espProfile} has no loop syntax; "${node.name}" was rendered once.`);
+    return block;
+  }
+
+  // o laço vale enquanto o conteúdo renderiza: é aí que os merge tags são traduzidos
+  private async renderInEspBlock(node: EmailNode, render: () => Promise<HtmlNode[]>, format: OutputFormat = 'html'): Promise<HtmlNode[]> {
+    const block = node.visible ? this.getEspBlock(node) : null;
+    const outerLoop = this.currentEspLoop;
+    if (block && block.itemTag) this.currentEspLoop = block;
+    const content = await render();
+    this.currentEspLoop = outerLoop;
+    if (!block || content.length === 0) return content;
+    if (format === 'mjml') return [htmlElement('mj-raw', {}, {}, [htmlRaw(block.open)]), ...content, htmlElement('mj-raw', {}, {}, [htmlRaw(block.close)])];
+    return [htmlRaw(block.open, true), ...content, htmlRaw(block.close, true)];
+  }
+
+  // --- partials: componente principal renderizado uma vez, instância vira include ---
+  private isPartialInstance(node: EmailNode): boolean {
+    return !!this.templateEngine && node.type === 'INSTANCE' && !!node.mainComponent && !node.overrides.rawHtml && !this.rasterizedNodeIds.has(node.id);
+  }
+
+  // variável do partial em renderização ligada ao campo do node; fora de partial não tem ligação
+  private getPropertyVariable(node: EmailNode, field: 'visible' | 'characters' | 'mainComponent'): TemplateVariable | null {
+    const partial = this.currentPartial;
+    const key = node.propertyReferences[field];
+    if (!partial || !key) return null;
+    return partial.variables.find(variable => variable.key === key) || null;
+  }
+
+  private wrapWithPropertyCondition(node: EmailNode, content: HtmlNode[]): HtmlNode[] {
+    const variable = this.getPropertyVariable(node, 'visible');
+    if (!this.templateEngine || !variable || variable.type !== 'BOOLEAN' || content.length === 0) return content;
+    const block = partialSyntaxes[this.templateEngine].ifBlock(variable.name);
+    return [htmlRaw(block.open, true), ...content, htmlRaw(block.close, true)];
+  }
+
+  private async renderPartialInclude(node: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    if (!node.visible || node.opacity === 0 || !this.templateEngine || !node.mainComponent) return [];
+    await this.checkpoint(node, true);
+    const syntax = partialSyntaxes[this.templateEngine];
+    // dentro de um partial, a instância ligada a um INSTANCE_SWAP troca de partial pela variável
+    const swapVariable = this.getPropertyVariable(node, 'mainComponent');
+    const partial = await this.getPartial(node.mainComponent, parentWidth, parentBgColor, imageExportMode);
+    if (swapVariable && swapVariable.type === 'INSTANCE_SWAP') return [htmlRaw(syntax.dynamicInclude(swapVariable.name), true)];
+
+    this.checkInstanceOverrides(node, node.mainComponent);
+    const params: PartialParam[] = [];
+    for (const variable of partial.variables) {
+      const property = node.componentProperties[variable.key];
+      const value = property ? property.value : variable.defaultValue;
+      if (variable.type === 'TEXT') params.push({ name: variable.name, value: String(value) });
+      else if (variable.type === 'BOOLEAN') params.push({ name: variable.name, value: value === true || value === 'true' });
+      else {
+        // o componente escolhido é o da instância aninhada que a propriedade controla
+        const target = this.findSwapTarget(node, variable.key);
+        const swapped = target?.mainComponent ? await this.getPartial(target.mainComponent, target.width, parentBgColor, imageExportMode) : null;
+        params.push({ name: variable.name, value: swapped ? swapped.name : String(variable.defaultValue) });
+      }
+    }
+    return [htmlRaw(syntax.include(partial.name, params), true)];
+  }
+
+  private async getPartial(component: EmailNode, parentWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<Omit<TemplatePartial, 'html'>> {
+    const existing = this.partials.get(component.id);
+    if (existing) return existing.partial;
+
+    const usedNames = Array.from(this.partials.values()).map(entry => entry.partial.name);
+    const baseName = slugify(component.name || 'component');
+    let name = baseName;
+    for (let suffix = 2; usedNames.indexOf(name) !== -1; suffix++) name = `${baseName}-${suffix}`;
+    const variables: TemplateVariable[] = [];
+    for (const key in component.componentProperties) {
+      const { type, value } = component.componentProperties[key];
+      if (type !== 'TEXT' && type !== 'BOOLEAN' && type !== 'INSTANCE_SWAP') continue;
+      const baseVariable = getTemplateVariableName(key);
+      let variableName = baseVariable;
+      for (let suffix = 2; variables.some(variable => variable.name === variableName); suffix++) variableName = `${baseVariable}_${suffix}`;
+      variables.push({ name: variableName, key, type, defaultValue: value });
+    }
+    const partial = { name, componentId: component.id, componentName: component.name, variables };
+    // registrado antes de renderizar: a ordem dos arquivos segue o primeiro uso
+    const entry = { partial, content: [] as HtmlNode[] };
+    this.partials.set(component.id, entry);
+
+    const outerPartial = this.currentPartial;
+    this.currentPartial = partial;
+    const root = this.preparePartialRoot(component, imageExportMode);
+    entry.content = await this.renderNodeContent(root, parentWidth, parentBgColor, imageExportMode);
+    this.currentPartial = outerPartial;
+
+    // padrão do INSTANCE_SWAP: o partial da instância que a propriedade controla no próprio componente
+    for (const variable of variables) {
+      if (variable.type !== 'INSTANCE_SWAP') continue;
+      const target = this.findSwapTarget(component, variable.key);
+      variable.defaultValue = target?.mainComponent ? (await this.getPartial(target.mainComponent, target.width, parentBgColor, imageExportMode)).name : '';
+    }
+    return partial;
+  }
+
+  // cópia do componente com as propriedades aplicadas: layer controlada por BOOLEAN renderiza mesmo oculta
+  // (fica dentro do if) e texto controlado por TEXT vira a variável, com o estilo do trecho mais longo
+  private preparePartialRoot(component: EmailNode, imageExportMode: ImageExportMode): EmailNode {
+    const engine = this.templateEngine || 'handlebars';
+    const bindProperties = (node: EmailNode): EmailNode => {
+      const copy: EmailNode = { ...node, children: node.children.map(bindProperties) };
+      if (this.getPropertyVariable(copy, 'visible')?.type === 'BOOLEAN') copy.visible = true;
+      const textVariable = this.getPropertyVariable(copy, 'characters');
+      if (copy.type === 'TEXT' && textVariable?.type === 'TEXT' && copy.segments.length > 0) {
+        const markup = partialSyntaxes[engine].variable(textVariable.name);
+        const longest = copy.segments.reduce((a, b) => b.characters.length > a.characters.length ? b : a);
+        copy.characters = markup;
+        copy.segments = [{ ...longest, characters: markup }];
+      }
+      return copy;
+    };
+    const root = this.inferLayout(bindProperties(component));
+    this.indexParents(root);
+    this.progressTotal += this.countVisibleNodes(root);
+    this.prefetchImages(root, imageExportMode);
+    return root;
+  }
+
+  private findSwapTarget(node: EmailNode, propertyKey: string): EmailNode | null {
+    for (const child of node.children) {
+      if (child.propertyReferences.mainComponent === propertyKey) return child;
+      const found = this.findSwapTarget(child, propertyKey);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  // mudança feita direto na instância (texto trocado, layer escondida) sem passar por propriedade não chega no partial
+  private checkInstanceOverrides(instance: EmailNode, component: EmailNode) {
+    const differs = (instanceNode: EmailNode, componentNode: EmailNode): boolean => {
+      // tipo diferente ou instância trocada por INSTANCE_SWAP: a estrutura já não corresponde
+      if (instanceNode.type !== componentNode.type || instanceNode.propertyReferences.mainComponent) return false;
+      if (!instanceNode.propertyReferences.visible && instanceNode.visible !== componentNode.visible) return true;
+      if (instanceNode.type === 'TEXT') return !instanceNode.propertyReferences.characters && instanceNode.characters !== componentNode.characters;
+      if (instanceNode.type === 'INSTANCE') return JSON.stringify(instanceNode.componentProperties) !== JSON.stringify(componentNode.componentProperties);
+      return childrenDiffer(instanceNode, componentNode);
+    };
+    const childrenDiffer = (instanceNode: EmailNode, componentNode: EmailNode) =>
+      instanceNode.children.some((child, index) => index < componentNode.children.length && differs(child, componentNode.children[index]));
+    if (childrenDiffer(instance, component)) {
+      this.addWarning(instance, 'warning', `"${instance.name}" has overrides that are not component properties; its partial uses the main component's content.`);
+    }
+  }
+
+  public getTemplateExport(format: HtmlFormat): TemplateExport | null {
+    if (!this.templateEngine || this.partials.size === 0) return null;
+    const partials = Array.from(this.partials.values()).map(({ partial, content }) => ({ ...partial, html: serializeHtml(content, format) }));
+    return { engine: this.templateEngine, extension: partialSyntaxes[this.templateEngine].extension, partials, usage: buildTemplateUsage(this.templateEngine, partials) };
+  }
+
+  // --- relatório de compatibilidade: avisos por node, juntados durante a renderização ---
+  private addWarning(node: EmailNode, severity: CompatibilityWarning['severity'], message: string) {
+    if (this.warnings.some(w => w.nodeId === node.id && w.message === message)) return;
+    this.warnings.push({ nodeId: node.id, nodeName: node.name, severity, message });
+  }
+
+  private checkTextReadability(node: EmailNode, parentBgColor: RgbColor) {
+    const segments = node.segments.filter(s => s.fontName && s.characters.trim());
+    if (segments.length === 0) return;
+    const minFontSize = Math.min(...segments.map(s => s.fontSize));
+    if (minFontSize < 12) {
+      this.addWarning(node, 'warning', `Text at ${Math.round(minFontSize * 10) / 10}px; below 12px is hard to read and iOS Mail may enlarge it.`);
+    }
+    for (const segment of segments) {
+      const { hex: colorHex, rgb: colorRgb } = this.getEffectiveBackgroundColorForFills(segment.fills, parentBgColor);
+      if (!colorHex) continue;
+      // texto grande (24px, ou 18.5px em negrito) pede 3:1; o resto 4.5:1 (WCAG AA)
+      const isLargeText = segment.fontSize >= 24 || (segment.fontSize >= 18.5 && getFontWeightFromStyleName(segment.fontName.style.toLowerCase()) >= 700);
+      const requiredRatio = isLargeText ? 3 : 4.5;
+      const ratio = getContrastRatio(colorRgb, parentBgColor);
+      if (ratio < requiredRatio) {
+        this.addWarning(node, 'warning', `Low contrast ${ratio.toFixed(2)}:1 between ${colorHex} and the background ${figmaColorToHex(parentBgColor)} (needs ${requiredRatio}:1).`);
+        return;
+      }
+    }
+  }
+
+  // alt: override do inspector, descrição do componente e só então o nome da layer;
+  // decorativa ou com nome padrão ("Rectangle 12") sai com alt vazio, que o leitor de tela pula
+  private getImageAlt(node: EmailNode): string {
+    if (node.overrides.decorative) return '';
+    if (node.overrides.alt) return node.overrides.alt;
+    if (node.description.trim()) return node.description.trim();
+    const name = node.name.trim();
+    return name && !defaultLayerNamePattern.test(name) ? name : '';
+  }
+
+  private checkImageAlt(node: EmailNode) {
+    if (node.overrides.alt || node.overrides.decorative || node.description.trim()) return;
+    if (!node.name.trim() || defaultLayerNamePattern.test(node.name.trim())) {
+      this.addWarning(node, 'warning', `Image "${node.name}" has no alt text; add an ALT override or a component description, or mark it decorative.`);
+    }
+  }
+
+  // nodes visíveis que não chegam no e-mail; dentro de imagem tudo vira PNG, então nada se perde
+  private collectDroppedNodes(node: EmailNode) {
+    if (!node.visible || node.opacity === 0) return;
+    if (node.overrides.skip || node.overrides.rawHtml) return;
+    if (node.type === 'OTHER') {
+      this.addWarning(node, 'warning', 'Layer type not supported in email; it was left out.');
+      return;
+    }
+    if (this.isImageLikeNode(node)) return;
+    if (node.effects.length > 0) {
+      const effectNames = node.effects.map(effect => effect.type.toLowerCase().replace(/_/g, ' '));
+      this.addWarning(node, 'warning', `Effects (${effectNames.join(', ')}) are not rendered in email.`);
+    }
+    node.children.forEach(child => this.collectDroppedNodes(child));
+  }
+
+  public analyze(nodes: readonly EmailNode[], output: string, outputFormat: OutputFormat): CompatibilityWarning[] {
+    nodes.forEach(node => this.collectDroppedNodes(node));
+    const root = nodes[0];
+    const documentWarnings: CompatibilityWarning[] = [];
+
+    for (const node of nodes) {
+      const width = Math.round(node.width);
+      if (width > 640) this.addWarning(node, 'error', `Width ${width}px is over 640px; most clients will scroll or scale the email.`);
+      else if (width > 600) this.addWarning(node, 'warning', `Width ${width}px is over the usual 600px.`);
+    }
+
+    // tamanho e aninhamento só fazem sentido no html final; o MJML ainda vai ser compilado
+    if (outputFormat === 'html' && root) {
+      const byteSize = getUtf8ByteLength(output);
+      if (byteSize > GMAIL_CLIP_BYTES) {
+        documentWarnings.push({ nodeId: root.id, nodeName: root.name, severity: 'error', message: `HTML is ${Math.round(byteSize / 1024)}KB; Gmail clips messages over 102KB.` });
+      }
+      const tableDepth = getMaxTableDepth(output);
+      if (tableDepth > MAX_TABLE_DEPTH) {
+        documentWarnings.push({ nodeId: root.id, nodeName: root.name, severity: 'warning', message: `Tables nested ${tableDepth} levels deep; flatten wrapper frames to stay under ${MAX_TABLE_DEPTH}.` });
+      }
+    }
+
+    if (this.templatePartialsRequested && !this.templateEngine) {
+      documentWarnings.push({ nodeId: null, nodeName: 'Template partials', severity: 'warning', message: 'Partials need HTML output and the Handlebars or Liquid ESP profile; components were rendered inline.' });
+    }
+
+    const allWarnings = documentWarnings.concat(this.warnings);
+    return allWarnings.filter(w => w.severity === 'error').concat(allWarnings.filter(w => w.severity === 'warning'));
+  }
+
+  private indexParents(node: EmailNode) {
+    for (const child of node.children) {
+      this.parents.set(child, node);
+      this.indexParents(child);
+    }
+  }
+
+  // mesmo conteúdo (hash) reaproveita o arquivo já exportado; nomes repetidos ganham sufixo
+  private registerAsset(node: EmailNode, bytes: Uint8Array, extension: string, mimeType: string): string {
+    const hash = hashBytes(bytes);
+    const existingName = this.assetNamesByHash.get(hash);
+    if (existingName) return existingName;
+
+    const baseName = slugify(node.name);
+    let name = `${baseName}.${extension}`;
+    for (let suffix = 2; this.assets.some(asset => asset.name === name); suffix++) {
+      name = `${baseName}-${suffix}.${extension}`;
+    }
+
+    this.assets.push({ name, bytes, width: Math.round(node.width), height: Math.round(node.height), mimeType });
+    this.assetNamesByHash.set(hash, name);
+    return name;
+  }
+
+  public getAssets(): EmailAsset[] {
+    return this.assets;
+  }
+
+  // --- progresso e cancelamento ---
+  private countVisibleNodes(node: EmailNode): number {
+    if (!node.visible || node.opacity === 0) return 0;
+    return 1 + node.children.reduce((sum, child) => sum + this.countVisibleNodes(child), 0);
+  }
+
+  // marca o node como feito (com a subárvore, quando ele sai inteiro) e de vez em quando devolve o controle,
+  // senão a mensagem de cancelar da UI só chega depois da conversão
+  private async checkpoint(node: EmailNode, includeSubtree: boolean) {
+    if (this.monitor.isCancelled()) throw new ConversionCancelledError();
+    const markDone = (n: EmailNode) => {
+      if (!n.visible || n.opacity === 0) return;
+      this.progressDone.add(n);
+      if (includeSubtree) n.children.forEach(markDone);
+    };
+    markDone(node);
+    this.monitor.onProgress(Math.min(this.progressDone.size, this.progressTotal), this.progressTotal);
+    if (Date.now() - this.lastYieldTime < 50) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    this.lastYieldTime = Date.now();
+    if (this.monitor.isCancelled()) throw new ConversionCancelledError();
+  }
+
+  // comum ao html e ao MJML: inferência, índice de pais, total do progresso e exportações adiantadas
+  // (raiz que sempre vira tabela, mesmo parecendo imagem, adianta os filhos no lugar dela)
+  private prepareNodes(selectedNodes: readonly EmailNode[], imageExportMode: ImageExportMode, rendersAsContainer: (root: EmailNode, roots: EmailNode[]) => boolean): EmailNode[] {
+    const nodes = selectedNodes.filter(node => !node.overrides.skip).map(node => this.inferLayout(node));
+    // a inferência ainda mexe em fundo, filhos e rasterização; o cache começa limpo pra renderização
+    this.imageLikeCache.clear();
+    nodes.forEach(node => this.indexParents(node));
+    this.progressTotal = nodes.reduce((sum, node) => sum + this.countVisibleNodes(node), 0);
+    this.lastYieldTime = Date.now();
+    nodes.forEach(node => {
+      if (rendersAsContainer(node, nodes)) node.children.forEach(child => this.prefetchImages(child, imageExportMode));
+      else this.prefetchImages(node, imageExportMode);
+    });
+    return nodes;
+  }
+
+  private isRootContainer(node: EmailNode, roots: EmailNode[]): boolean {
+    return roots.length === 1 && (node.type === "FRAME" || node.type === "COMPONENT" || node.type === "INSTANCE") && !node.overrides.rawHtml;
+  }
+
+  public async parse(selectedNodes: readonly EmailNode[], imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const nodes = this.prepareNodes(selectedNodes, imageExportMode, (node, roots) => this.isRootContainer(node, roots));
+    if (nodes.length === 0) return [];
+    const rootBgColor = { r: 1, g: 1, b: 1 };
+    // colunas empilham quando a tela fica mais estreita que o próprio layout
+    this.responsiveBreakpoint = Math.round(Math.max(...nodes.map(n => n.width)));
+
+    if (nodes.length === 1) {
+      const node = nodes[0];
+      const isRootSelection = node.isTopLevel;
+      if (this.isRootContainer(node, nodes)) {
+        return this.renderContainer(node, node.width, rootBgColor, isRootSelection, imageExportMode);
+      } else {
+        return this.renderNode(node, node.width, rootBgColor, imageExportMode);
+      }
+    }
+
+    const sortedNodes = [...nodes].sort((a, b) => a.y - b.y);
+    const rows: HtmlElement[] = [];
+    let lastBottomY = sortedNodes[0].y;
+
+    for (const [i, node] of sortedNodes.entries()) {
+      if (i > 0) {
+        const gap = Math.round(node.y - lastBottomY);
+        if (gap > 2) rows.push(htmlSpacerRow(gap));
+      }
+
+      const nodeContent = await this.renderNode(node, node.width, rootBgColor, imageExportMode);
+
+      if (nodeContent.length > 0) {
+        rows.push(htmlRow([htmlElement('td', {}, {}, nodeContent)]));
+      }
+      if (node.visible) {
+        lastBottomY = node.y + node.height;
+      }
+    }
+
+    if (rows.length === 0) return [];
+    return [htmlTable({ width: '100%' }, {}, rows)];
+  }
+
+  // --- MJML: raiz vira mj-section, auto layout horizontal vira mj-column ---
+  // padding no MJML é físico: no rtl os lados trocam junto com as colunas
+  private mjmlPadding(padding: { top: number; right: number; bottom: number; left: number }): string {
+    const [start, end] = this.rtl ? [padding.right, padding.left] : [padding.left, padding.right];
+    return [padding.top, end, padding.bottom, start].map(value => `${Math.max(0, Math.round(value))}px`).join(' ');
+  }
+
+  // tabela do renderer normal dentro do MJML, pro que não tem componente equivalente
+  private embedInMjml(content: HtmlNode[]): HtmlNode[] {
+    return content.length > 0 ? [htmlElement('mj-text', {}, {}, content)] : [];
+  }
+
+  private mjmlSpacer(height: number): HtmlElement {
+    return htmlElement('mj-spacer', { height: `${height}px` });
+  }
+
+  private hasLayerFill(node: EmailNode): boolean {
+    return Array.isArray(node.fills) && node.fills.some(f => f.visible !== false && (f.type === 'IMAGE' || f.type.indexOf('GRADIENT') === 0));
+  }
+
+  private getVisibleChildrenInOrder(node: EmailNode): EmailNode[] {
+    const children = node.children.filter(c => c.visible && c.opacity !== 0);
+    if (node.layoutMode === 'HORIZONTAL') return children.sort((a, b) => a.x - b.x);
+    if (node.layoutMode !== 'VERTICAL') return children.sort((a, b) => a.y - b.y);
+    return children;
+  }
+
+  private getMjmlVerticalAlign(node: EmailNode): string {
+    if (node.counterAxisAlignItems === 'CENTER') return 'middle';
+    if (node.counterAxisAlignItems === 'MAX') return 'bottom';
+    return 'top';
+  }
+
+  private async renderMjmlSections(nodes: EmailNode[], parentNode: EmailNode | null, bodyWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const sections: HtmlNode[] = [];
+    const sidePadding = { left: parentNode ? parentNode.paddingLeft : 0, right: parentNode ? parentNode.paddingRight : 0 };
+    let lastBottomY = parentNode ? parentNode.paddingTop : nodes[0].y;
+
+    for (const [i, node] of nodes.entries()) {
+      // espaço entre os filhos da raiz vira padding da seção
+      const gap = Math.max(0, Math.round(node.y - lastBottomY));
+      const isLast = i === nodes.length - 1;
+      const bottomGap = parentNode && isLast ? Math.max(0, Math.round(parentNode.height - node.y - node.height)) : 0;
+      const outerPadding = { top: gap > 2 ? gap : 0, right: sidePadding.right, bottom: bottomGap > 2 ? bottomGap : 0, left: sidePadding.left };
+      sections.push(...await this.renderInEspBlock(node, () => this.renderMjmlSection(node, bodyWidth, parentBgColor, imageExportMode, outerPadding), 'mjml'));
+      lastBottomY = node.y + node.height;
+    }
+    return sections;
+  }
+
+  private async renderMjmlSection(node: EmailNode, bodyWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode, outerPadding: { top: number; right: number; bottom: number; left: number }): Promise<HtmlNode[]> {
+    const contentWidth = Math.round(bodyWidth - outerPadding.left - outerPadding.right);
+    await this.checkpoint(node, false);
+
+    // texto, imagem, botão ou fundo em gradiente: seção simples com uma coluna
+    if (!this.isLayoutContainer(node) || (this.hasLayerFill(node) && !(node.fills || []).some(f => f.type === 'IMAGE' && f.visible !== false))) {
+      const content = await this.renderMjmlNodeContent(node, contentWidth, parentBgColor, imageExportMode, true);
+      if (content.length === 0) return [];
+      return [htmlElement('mj-section', { padding: this.mjmlPadding(outerPadding) }, {}, [htmlElement('mj-column', {}, {}, content)])];
+    }
+
+    const background = await this.getBackgroundLayer(node, parentBgColor, imageExportMode);
+    const { hex: bgColorHex, rgb: effectiveBgRgb } = background
+      ? { hex: background.fallbackHex, rgb: background.fallbackRgb }
+      : this.getEffectiveBackgroundColor(node, parentBgColor);
+    const innerWidth = Math.round(node.width - node.paddingLeft - node.paddingRight);
+
+    const columns: HtmlNode[] = [];
+    if (node.layoutMode === 'HORIZONTAL') {
+      const children = this.getVisibleChildrenInOrder(node);
+      let lastRightX = node.paddingLeft;
+      for (const [i, child] of children.entries()) {
+        const gap = i > 0 ? Math.max(0, Math.round(child.x - lastRightX)) : 0;
+        columns.push(...await this.renderMjmlColumn(child, Math.round(child.width) + gap, effectiveBgRgb, imageExportMode, gap, this.getMjmlVerticalAlign(node)));
+        lastRightX = child.x + child.width;
+      }
+    } else {
+      const content = await this.renderMjmlStack(node, innerWidth, effectiveBgRgb, imageExportMode);
+      if (content.length > 0) columns.push(htmlElement('mj-column', {}, {}, content));
+    }
+    if (columns.length === 0 && !background) return [];
+
+    const hasOwnBox = !!bgColorHex || !!background || !!this.getBorderStyle(node);
+    const hasOuterPadding = outerPadding.top + outerPadding.right + outerPadding.bottom + outerPadding.left > 0;
+    const ownPadding = this.getInnerPadding(node);
+    const section = htmlElement('mj-section', {
+      'background-color': bgColorHex,
+      'background-url': background?.imageUrl,
+      'background-size': background?.imageUrl ? 'cover' : null,
+      'background-repeat': background?.imageUrl ? 'no-repeat' : null,
+      'background-position': background?.imageUrl ? 'center center' : null,
+      // colunas são inline-block: o text-align da seção alinha a linha inteira
+      'text-align': node.layoutMode === 'HORIZONTAL' && node.primaryAxisAlignItems === 'CENTER' ? 'center'
+        : node.layoutMode === 'HORIZONTAL' && node.primaryAxisAlignItems === 'MAX' ? this.mirrorAlign('right') : null,
+      direction: node.layoutMode === 'HORIZONTAL' && this.rtl ? 'rtl' : null,
+      ...this.getBorderStyle(node),
+      ...this.getBorderRadiusStyle(node),
+      padding: this.mjmlPadding(hasOwnBox ? ownPadding : {
+        top: ownPadding.top + outerPadding.top,
+        right: ownPadding.right + outerPadding.right,
+        bottom: ownPadding.bottom + outerPadding.bottom,
+        left: ownPadding.left + outerPadding.left,
+      }),
+    }, {}, columns);
+    // fundo próprio com recuo da raiz: o wrapper segura o recuo pro fundo não vazar
+    if (hasOwnBox && hasOuterPadding) {
+      return [htmlElement('mj-wrapper', { padding: this.mjmlPadding(outerPadding) }, {}, [section])];
+    }
+    return [section];
+  }
+
+  private async renderMjmlColumn(node: EmailNode, columnWidth: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode, gap: number, verticalAlign: string): Promise<HtmlNode[]> {
+    return this.renderInEspBlock(node, async () => {
+      const gapSide = this.rtl ? 'padding-right' : 'padding-left';
+      const columnAttributes: HtmlAttributes = { width: `${columnWidth}px`, 'vertical-align': verticalAlign, [gapSide]: gap > 0 ? `${gap}px` : null };
+      let content: HtmlNode[];
+
+      // frame de coluna sem caixa própria: o padding dele vira padding do mj-column
+      // (com fundo ou borda, o padding do mj-column ficaria fora da caixa; aí vai pela tabela)
+      const isPlainColumn = this.isLayoutContainer(node) && node.layoutMode !== 'HORIZONTAL' && !this.getNodeLink(node)
+        && !this.getEffectiveBackgroundColor(node, parentBgColor).hex && !this.hasLayerFill(node) && !this.getBorderStyle(node);
+      if (isPlainColumn) {
+        await this.checkpoint(node, false);
+        content = await this.renderMjmlStack(node, Math.round(node.width - node.paddingLeft - node.paddingRight), parentBgColor, imageExportMode);
+        columnAttributes['padding'] = this.mjmlPadding({ top: node.paddingTop, right: node.paddingRight, bottom: node.paddingBottom, left: gap + node.paddingLeft });
+        columnAttributes[gapSide] = null;
+      } else {
+        content = await this.renderMjmlNodeContent(node, Math.round(node.width), parentBgColor, imageExportMode, true);
+      }
+      return [htmlElement('mj-column', columnAttributes, {}, content)];
+    }, 'mjml');
+  }
+
+  private async renderMjmlStack(parentNode: EmailNode, width: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    const items: HtmlNode[] = [];
+    let lastBottomY = parentNode.paddingTop;
+    for (const child of this.getVisibleChildrenInOrder(parentNode)) {
+      const gap = Math.round(child.y - lastBottomY);
+      if (items.length > 0 && gap > 2) items.push(this.mjmlSpacer(gap));
+      items.push(...await this.renderMjmlNode(child, width, parentBgColor, imageExportMode, false));
+      lastBottomY = child.y + child.height;
+    }
+    return items;
+  }
+
+  private async renderMjmlNode(node: EmailNode, width: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode, isColumnRoot: boolean): Promise<HtmlNode[]> {
+    return this.renderInEspBlock(node, () => this.renderMjmlNodeContent(node, width, parentBgColor, imageExportMode, isColumnRoot), 'mjml');
+  }
+
+  private async renderMjmlNodeContent(node: EmailNode, width: number, parentBgColor: RgbColor, imageExportMode: ImageExportMode, isColumnRoot: boolean): Promise<HtmlNode[]> {
+    if (!node.visible || node.opacity === 0) return [];
+    await this.checkpoint(node, !this.isLayoutContainer(node));
+    if (node.overrides.rawHtml) return [htmlElement('mj-raw', {}, {}, [htmlRaw(node.overrides.rawHtml)])];
+    if (this.isImageLikeNode(node)) return this.renderMjmlImage(node, width, imageExportMode);
+
+    switch (node.type) {
+      case "FRAME":
+      case "GROUP":
+      case "COMPONENT":
+      case "INSTANCE": {
+        if (isBulletPoint(node)) return this.embedInMjml(await this.renderBulletPoint(node, parentBgColor));
+        if (this.isButtonLikeNode(node)) return this.renderMjmlButton(node, parentBgColor);
+        // frame sem caixa própria é só agrupamento: desenrola os filhos na mesma coluna
+        const isPlainGroup = node.layoutMode !== 'HORIZONTAL' && !this.getNodeLink(node) && node.paddingLeft === 0 && node.paddingRight === 0
+          && !this.getEffectiveBackgroundColor(node, parentBgColor).hex && !this.hasLayerFill(node) && !this.getBorderStyle(node);
+        if (isPlainGroup && !isColumnRoot) {
+          const stack = await this.renderMjmlStack(node, width, parentBgColor, imageExportMode);
+          const paddingTop = Math.round(node.paddingTop);
+          const paddingBottom = Math.round(node.paddingBottom);
+          return [
+            ...(paddingTop > 2 ? [this.mjmlSpacer(paddingTop)] : []),
+            ...stack,
+            ...(paddingBottom > 2 ? [this.mjmlSpacer(paddingBottom)] : []),
+          ];
+        }
+        return this.embedInMjml(await this.renderNodeContent(node, width, parentBgColor, imageExportMode));
+      }
+      case "RECTANGLE":
+      case "ELLIPSE":
+        return this.renderMjmlShape(node, width, parentBgColor);
+      case "TEXT":
+        return this.renderMjmlText(node, parentBgColor);
+      default:
+        return [];
+    }
+  }
+
+  private renderMjmlText(node: EmailNode, parentBgColor: RgbColor): HtmlNode[] {
+    const { baseStyle, content } = this.processTextNode(node, parentBgColor, true, this.getTextTag(node));
+    if (content.length === 0) return [];
+    const textAlign = this.mirrorAlign((node.textAlignHorizontal || 'LEFT').toLowerCase());
+    const supportedKeys = ['color', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height', 'letter-spacing', 'text-decoration', 'text-transform'];
+    const attributes: HtmlAttributes = { align: textAlign === 'justified' ? 'justify' : textAlign };
+    const unsupportedStyle: HtmlStyle = {};
+    for (const key of Object.keys(baseStyle)) {
+      if (supportedKeys.indexOf(key) !== -1) attributes[key] = baseStyle[key];
+      else unsupportedStyle[key] = baseStyle[key];
+    }
+    // o que o mj-text não tem como atributo (ex: font-variant) vai num span por fora
+    const children = Object.keys(unsupportedStyle).length > 0 ? [htmlElement('span', {}, unsupportedStyle, content)] : content;
+    return [htmlElement('mj-text', attributes, {}, children)];
+  }
+
+  private renderMjmlButton(node: EmailNode, parentBgColor: RgbColor): HtmlNode[] {
+    const labelNode = this.findVisibleText(node);
+    if (!labelNode) return [];
+    const { hex: bgColorHex, rgb: effectiveBgRgb } = this.getEffectiveBackgroundColor(node, parentBgColor);
+    const { baseStyle, content } = this.processTextNode(labelNode, effectiveBgRgb, false);
+    if (content.length === 0) return [];
+
+    const isAutoLayout = node.layoutMode !== 'NONE';
+    const padding = {
+      top: isAutoLayout ? node.paddingTop : labelNode.y,
+      right: isAutoLayout ? node.paddingRight : node.width - labelNode.x - labelNode.width,
+      bottom: isAutoLayout ? node.paddingBottom : node.height - labelNode.y - labelNode.height,
+      left: isAutoLayout ? node.paddingLeft : labelNode.x,
+    };
+    const fontAttributes: HtmlAttributes = {};
+    for (const key of ['color', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height', 'letter-spacing', 'text-transform']) {
+      if (baseStyle[key]) fontAttributes[key] = baseStyle[key];
+    }
+    const borderStyle = this.getBorderStyle(node);
+    const radiusStyle = this.getBorderRadiusStyle(node);
+
+    // mj-button tem fundo, raio e borda padrão próprios; sempre manda os do figma
+    return [htmlElement('mj-button', {
+      href: this.getButtonLink(node, labelNode),
+      align: this.getHorizontalAlignInParent(node),
+      'background-color': bgColorHex || 'transparent',
+      ...fontAttributes,
+      'text-decoration': baseStyle['text-decoration'] || 'none',
+      'border-radius': radiusStyle ? radiusStyle['border-radius'] : '0px',
+      border: borderStyle ? null : 'none',
+      ...borderStyle,
+      'inner-padding': this.mjmlPadding(padding),
+    }, {}, content)];
+  }
+
+  private renderMjmlShape(node: EmailNode, width: number, parentBgColor: RgbColor): HtmlNode[] {
+    const { hex: bgColorHex } = this.getEffectiveBackgroundColor(node, parentBgColor);
+    const height = Math.round(node.height);
+    // linha fina de cor sólida é divisor; o resto sai como tabela
+    if (bgColorHex && height > 0 && height <= 4 && !this.getBorderStyle(node)) {
+      return [htmlElement('mj-divider', {
+        'border-color': bgColorHex,
+        'border-width': `${height}px`,
+        width: `${Math.min(Math.round(node.width), width)}px`,
+        align: this.getHorizontalAlignInParent(node),
+      })];
+    }
+    return this.embedInMjml(this.renderShape(node, parentBgColor));
+  }
+
+  private async renderMjmlImage(node: EmailNode, width: number, mode: ImageExportMode): Promise<HtmlNode[]> {
+    if (node.width < 1 || node.height < 1) return [];
+    const finalWidth = Math.min(Math.round(node.width), width);
+    const altText = this.getImageAlt(node);
+    const link = this.getNodeLink(node);
+    this.checkImageAlt(node);
+    try {
+      const src = await this.getImageSrc(node, finalWidth, mode);
+      if (!src) return [];
+      return [htmlElement('mj-image', {
+        src,
+        width: `${finalWidth}px`,
+        alt: altText,
+        href: link?.url,
+        target: link ? (link.openInNewTab ? '_blank' : '_self') : null,
+        align: this.getHorizontalAlignInParent(node),
+        ...this.getBorderRadiusStyle(node),
+      })];
+    } catch (e) {
+      if (e instanceof ConversionCancelledError) throw e;
+      return [htmlElement('mj-text', { color: 'red' }, {}, [htmlText(`Error exporting image: ${altText || node.name}`)])];
+    }
+  }
+
+  public async parseMjml(selectedNodes: readonly EmailNode[], imageExportMode: ImageExportMode): Promise<HtmlNode[]> {
+    // no MJML a raiz só vira seções quando é container de verdade; imagem sai como imagem
+    // partials só no html: componentes saem inline
+    this.templateEngine = null;
+    const nodes = this.prepareNodes(selectedNodes, imageExportMode, () => false);
+    if (nodes.length === 0) return [];
+    const rootBgColor = { r: 1, g: 1, b: 1 };
+    this.responsiveBreakpoint = Math.round(Math.max(...nodes.map(n => n.width)));
+    const bodyWidth = this.responsiveBreakpoint;
+
+    // frame raiz vertical: cada filho vira seção e o fundo da raiz fica no mj-body
+    const root = nodes[0];
+    if (nodes.length === 1 && this.isLayoutContainer(root) && root.layoutMode !== 'HORIZONTAL' && !this.hasLayerFill(root) && !this.getBorderStyle(root)) {
+      const { rgb } = this.getEffectiveBackgroundColor(root, rootBgColor);
+      const children = this.getVisibleChildrenInOrder(root);
+      if (children.length === 0) return [];
+      await this.checkpoint(root, false);
+      return this.renderMjmlSections(children, root, bodyWidth, rgb, imageExportMode);
+    }
+
+    const sortedNodes = nodes.filter(n => n.visible).sort((a, b) => a.y - b.y);
+    if (sortedNodes.length === 0) return [];
+    return this.renderMjmlSections(sortedNodes, null, bodyWidth, rootBgColor, imageExportMode);
+  }
+}
+
+function isBulletPoint(node: EmailNode): boolean {
+  if (node.type !== 'FRAME' || !node.visible || node.layoutMode !== 'HORIZONTAL' || node.children.length !== 2) return false;
+  const [firstChild, secondChild] = node.children;
+  if (firstChild.type !== 'TEXT' || secondChild.type !== 'TEXT') return false;
+  const bulletChar = firstChild.characters.trim();
+  return bulletChar.length === 1 && bulletChar in bulletCharacterMap;
+}
+
+// --- documento completo (doctype, head, wrapper centralizado e preheader) ---
+function findPreheaderText(node: EmailNode): string {
+  if (node.type === 'TEXT' && node.name.trim().toLowerCase() === 'preheader') return node.characters.trim();
+  for (const child of node.children) {
+    const text = findPreheaderText(child);
+    if (text) return text;
+  }
+  return "";
+}
+
+// idiomas escritos da direita pra esquerda (subtag principal do código)
+const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+function resolveTextDirection(settings: ConversionSettings): 'ltr' | 'rtl' {
+  if (settings.textDirection === 'ltr' || settings.textDirection === 'rtl') return settings.textDirection;
+  const language = (settings.lang || '').trim().toLowerCase().split(/[-_]/)[0];
+  return RTL_LANGUAGES.indexOf(language) !== -1 ? 'rtl' : 'ltr';
+}
+
+function getDocumentOptions(nodes: readonly EmailNode[], settings: ConversionSettings): EmailDocumentOptions {
+  const root = nodes[0];
+  // frame raiz define titulo, preheader, fundo e largura; os campos dos settings tem prioridade
+  let backgroundColor = '#ffffff';
+  if (Array.isArray(root.fills)) {
+    const solidFill = root.fills.find((f) => f.type === "SOLID" && f.visible !== false) as SolidPaint | undefined;
+    if (solidFill) backgroundColor = figmaColorToHex(solidFill.color);
+  }
+  const width = nodes.length === 1 ? Math.round(root.width) : Math.round(Math.max(...nodes.map(n => n.width)));
+
+  return {
+    title: settings.documentTitle?.trim() || root.name,
+    preheader: settings.preheaderText?.trim() || nodes.map(findPreheaderText).find(Boolean) || "",
+    backgroundColor,
+    backgroundClassName: null,
+    width,
+    lang: (settings.lang || '').trim(),
+    dir: resolveTextDirection(settings),
+  };
+}
+
+function buildEmailDocument(bodyNodes: HtmlNode[], options: EmailDocumentOptions, headStyles = "", headNodes: HtmlNode[] = [], format: HtmlFormat = 'pretty'): string {
+  const { title, preheader, backgroundColor, backgroundClassName, width, lang, dir } = options;
+
+  // preenchimento invisivel depois do preheader, evita que o cliente puxe o texto do corpo pro preview
+  const preheaderNodes = preheader
+    ? [htmlElement('div', {}, { display: 'none', 'font-size': '1px', 'line-height': '1px', 'max-height': '0', 'max-width': '0', opacity: '0', overflow: 'hidden', 'mso-hide': 'all' }, [htmlText(preheader), htmlRaw('&#847;&zwnj;&nbsp;'.repeat(40))])]
+    : [];
+  const baseStyles = [
+    'body { margin:0; padding:0; width:100% !important; -webkit-text-size-adjust:100%; -ms-text-size-adjust:100%; }',
+    'table, td { border-collapse:collapse; mso-table-lspace:0pt; mso-table-rspace:0pt; }',
+    'img { border:0; outline:none; text-decoration:none; -ms-interpolation-mode:bicubic; }',
+    headStyles,
+  ].filter(Boolean).join('\n');
+
+  const head = htmlElement('head', {}, {}, [
+    htmlElement('meta', { 'http-equiv': 'Content-Type', content: 'text/html; charset=UTF-8' }),
+    htmlElement('meta', { name: 'viewport', content: 'width=device-width, initial-scale=1.0' }),
+    htmlElement('meta', { 'http-equiv': 'X-UA-Compatible', content: 'IE=edge' }),
+    htmlElement('meta', { name: 'x-apple-disable-message-reformatting' }),
+    htmlElement('title', {}, {}, [htmlText(title)]),
+    htmlRaw('<!--[if mso]><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml><![endif]-->', true),
+    ...headNodes,
+    htmlElement('style', { type: 'text/css' }, {}, [htmlRaw(baseStyles, true)]),
+  ]);
+
+  // o wrapper do Outlook abre e fecha em comentários condicionais separados; fica como html pronto em volta da tabela
+  const centeredContent = htmlTable({ width: '100%', align: 'center' }, { 'max-width': `${width}px` }, [htmlRow([htmlElement('td', {}, {}, bodyNodes)])]);
+  const outerCell = htmlElement('td', { align: 'center' }, {}, [
+    htmlRaw(`<!--[if mso]><table width="${width}" align="center" border="0" cellpadding="0" cellspacing="0" role="presentation"><tr><td><![endif]-->`, true),
+    centeredContent,
+    htmlRaw('<!--[if mso]></td></tr></table><![endif]-->', true),
+  ]);
+  const body = htmlElement('body', { class: backgroundClassName, bgcolor: backgroundColor }, { margin: '0', padding: '0', 'background-color': backgroundColor }, [
+    ...preheaderNodes,
+    // o Outlook não herda o dir do <html>; a tabela de fora repete
+    htmlTable({ class: backgroundClassName, width: '100%', bgcolor: backgroundColor, dir }, { 'background-color': backgroundColor }, [htmlRow([outerCell])]),
+  ]);
+
+  const html = htmlElement('html', { xmlns: 'http://www.w3.org/1999/xhtml', 'xmlns:v': 'urn:schemas-microsoft-com:vml', 'xmlns:o': 'urn:schemas-microsoft-com:office:office', lang, dir }, {}, [head, body]);
+  const doctype = '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">';
+  return `${doctype}${format === 'pretty' ? '\n' : ''}${serializeHtml([html], format)}`;
+}
+
+// --- documento MJML (compilar com mjml pra chegar no html final) ---
+function buildMjmlDocument(bodyNodes: HtmlNode[], options: EmailDocumentOptions, headStyles = "", headNodes: HtmlNode[] = [], format: HtmlFormat = 'pretty'): string {
+  const { title, preheader, backgroundColor, width, lang, dir } = options;
+  const head = htmlElement('mj-head', {}, {}, [
+    htmlElement('mj-title', {}, {}, [htmlText(title)]),
+    ...(preheader ? [htmlElement('mj-preview', {}, {}, [htmlText(preheader)])] : []),
+    htmlElement('mj-attributes', {}, {}, [htmlElement('mj-all', { padding: '0px' })]),
+    ...(headNodes.length > 0 ? [htmlElement('mj-raw', {}, {}, headNodes)] : []),
+    ...(headStyles ? [htmlElement('mj-style', {}, {}, [htmlRaw(headStyles, true)])] : []),
+  ]);
+  const body = htmlElement('mj-body', { width: `${width}px`, 'background-color': backgroundColor }, {}, bodyNodes);
+  return serializeHtml([htmlElement('mjml', { lang, dir: dir === 'rtl' ? dir : null }, {}, [head, body])], format);
+}
+
+// sobe quando a saída muda pro mesmo frame e as mesmas opções: o cache do lote guarda html de versões anteriores
+const CONVERTER_VERSION = 1;
+
+async function convertEmailNodes(nodes: EmailNode[], settings: ConversionSettings, imageExporter: NodeImageExporter, darkModeColors: DarkModeColors = {}, monitor: ConversionMonitor = silentConversionMonitor): Promise<ConversionResult> {
+  const parser = new FigmaPluginParser({
+    useLiteralWidth: settings.useLiteralWidth,
+    assetBaseUrl: settings.assetBaseUrl,
+    imageFormat: settings.imageFormat,
+    imageScale: settings.imageScale,
+    jpgQuality: settings.jpgQuality,
+    imageByteBudgetKb: settings.imageByteBudgetKb,
+    buttonNamePattern: settings.buttonNamePattern,
+    responsiveMode: settings.responsiveMode,
+    fontMappings: settings.fontMappings,
+    embedWebFonts: settings.embedWebFonts,
+    // classes de dark mode não chegam no texto do mj-text (a cor fica inline na div de dentro)
+    darkModeColors: settings.darkMode && settings.outputFormat !== 'mjml' ? darkModeColors : {},
+    espProfile: settings.espProfile,
+    headingMode: settings.headingMode,
+    rtl: resolveTextDirection(settings) === 'rtl',
+    templatePartials: settings.templatePartials,
+  }, imageExporter, monitor);
+  const format = settings.htmlFormat || 'pretty';
+  if (settings.outputFormat === 'mjml') {
+    // MJML sempre sai como documento inteiro: o compilador precisa do <mjml> raiz
+    const bodyNodes = await parser.parseMjml(nodes, settings.imageExportMode);
+    parser.applyWebFontClasses(bodyNodes);
+    const classStyles = settings.extractStyleClasses ? extractStyleClasses(bodyNodes) : '';
+    const headStyles = [parser.getHeadStyles(), classStyles].filter(Boolean).join('\n');
+    const html = buildMjmlDocument(bodyNodes, getDocumentOptions(nodes, settings), headStyles, parser.getWebFontHead(), format);
+    const warnings = parser.analyze(nodes, html, 'mjml');
+    if (settings.darkMode && Object.keys(darkModeColors).length > 0) {
+      warnings.push({ nodeId: null, nodeName: 'Dark mode', severity: 'warning', message: 'Dark mode needs HTML output; MJML keeps the light colors of variable-bound layers.' });
+    }
+    return { html, assets: parser.getAssets(), imageReport: parser.getImageReport(), warnings, templates: null };
+  }
+
+  const bodyNodes = await parser.parse(nodes, settings.imageExportMode);
+  parser.applyWebFontClasses(bodyNodes);
+  // classes saem depois da árvore pronta: só assim dá pra saber o que se repete
+  const classStyles = settings.extractStyleClasses ? extractStyleClasses(bodyNodes) : '';
+  const headStyles = [parser.getHeadStyles(), classStyles].filter(Boolean).join('\n');
+  let html: string;
+  if (settings.outputMode === 'document') {
+    const headNodes = [...parser.getColorSchemeMeta(), ...parser.getWebFontHead()];
+    const documentOptions = getDocumentOptions(nodes, settings);
+    documentOptions.backgroundClassName = parser.darkModeClassName({ background: documentOptions.backgroundColor });
+    html = buildEmailDocument(bodyNodes, documentOptions, headStyles, headNodes, format);
+  } else {
+    // fragmento não tem <html>: idioma e direção vão nas tabelas de fora
+    const lang = (settings.lang || '').trim();
+    const dir = resolveTextDirection(settings);
+    bodyNodes.forEach(node => {
+      if (node.kind !== 'element') return;
+      if (lang) node.attributes['lang'] = lang;
+      if (dir === 'rtl') node.attributes['dir'] = dir;
+    });
+    const fragment = headStyles && bodyNodes.length > 0
+      ? [htmlElement('style', { type: 'text/css' }, {}, [htmlRaw(headStyles, true)]), ...bodyNodes]
+      : bodyNodes;
+    html = serializeHtml(fragment, format);
+  }
+  return {
+    html,
+    assets: parser.getAssets(),
+    imageReport: parser.getImageReport(),
+    warnings: parser.analyze(nodes, html, 'html'),
+    templates: parser.getTemplateExport(format),
+  };
+}
+
+// USAGE.md do zip: como registrar os partials e um include de exemplo por componente, com os valores padrão
+function buildTemplateUsage(engine: TemplateEngine, partials: TemplatePartial[]): string {
+  const syntax = partialSyntaxes[engine];
+  const setup = engine === 'handlebars'
+    ? [
+      "const fs = require('fs');",
+      "const Handlebars = require('handlebars');",
+      "for (const file of fs.readdirSync('partials')) {",
+      "  Handlebars.registerPartial(file.replace(/\\.hbs$/, ''), fs.readFileSync(`partials/${file}`, 'utf8'));",
+      '}',
+      "const html = Handlebars.compile(fs.readFileSync('email.hbs', 'utf8'))(data);",
+    ]
+    : [
+      "const { Liquid } = require('liquidjs');",
+      "const engine = new Liquid({ root: '.', partials: './partials', extname: '.liquid' });",
+      "const html = await engine.renderFile('email', data);",
+    ];
+  const sections = partials.map(partial => {
+    const variables = partial.variables.map(variable => {
+      const kind = variable.type === 'INSTANCE_SWAP' ? 'partial name' : variable.type.toLowerCase();
+      return `- \`${variable.name}\` (${kind}, default ${JSON.stringify(variable.defaultValue)})`;
+    });
+    const example = syntax.include(partial.name, partial.variables.map(variable => ({
+      name: variable.name,
+      value: variable.type === 'BOOLEAN' ? variable.defaultValue === true : String(variable.defaultValue),
+    })));
+    return [`## ${partial.name}`, '', `Component: ${partial.componentName}`, '', ...variables, ...(variables.length > 0 ? [''] : []), '```', example, '```'].join('\n');
+  });
+  return [
+    `# Template partials (${engine === 'handlebars' ? 'Handlebars' : 'Liquid'})`,
+    '',
+    `Each component instance in email${syntax.extension} is an include of partials/<name>${syntax.extension}, with the instance's properties as parameters: TEXT as copy, BOOLEAN as conditions and INSTANCE_SWAP as the name of the nested partial.`,
+    '',
+    '```js',
+    ...setup,
+    '```',
+    '',
+    sections.join('\n\n'),
+  ].join('\n');
+}
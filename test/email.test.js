@@ -0,0 +1,276 @@
+const assert = require('node:assert');
+const { test } = require('node:test');
+const { convertFixture, matchSnapshot } = require('./helpers');
+
+test('vertical stack: padding, gap and nested card', async () => {
+  const { html } = await convertFixture('vertical-stack');
+  matchSnapshot('vertical-stack', html);
+});
+
+test('horizontal stack: columns with gap and vertical alignment', async () => {
+  const { html } = await convertFixture('horizontal-stack');
+  matchSnapshot('horizontal-stack', html);
+});
+
+test('padding rows span every column of a horizontal stack', async () => {
+  const { html } = await convertFixture('padding-colspans');
+  matchSnapshot('padding-colspans', html);
+  assert.match(html, /colspan="\d+"/);
+});
+
+test('text: most common segment style is the base style', async () => {
+  const { html } = await convertFixture('text-base-style');
+  matchSnapshot('text-base-style', html);
+});
+
+test('bullets render as two-cell rows with the bullet entity', async () => {
+  const { html } = await convertFixture('bullets');
+  matchSnapshot('bullets', html);
+  assert.match(html, /&#8226;/);
+});
+
+test('shapes: rectangle and ellipse fills, strokes and radius', async () => {
+  const { html } = await convertFixture('shapes');
+  matchSnapshot('shapes', html);
+});
+
+test('images: placeholder output', async () => {
+  const { html } = await convertFixture('images');
+  matchSnapshot('images', html);
+});
+
+test('images: hosted output points every image at its asset', async () => {
+  const { html, assets } = await convertFixture('images', { imageExportMode: 'hosted', assetBaseUrl: 'https://cdn.example.com/' });
+  matchSnapshot('images-hosted', html);
+  assert.strictEqual(assets.length, 2);
+  for (const asset of assets) assert.ok(html.includes(`https://cdn.example.com/${asset.name}`));
+});
+
+test('web fonts: each family gets its own Outlook fallback', async () => {
+  const fontMappings = [
+    { family: 'Playfair Display', stack: "'Playfair Display', Georgia, serif", webFontUrl: 'https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700' },
+    { family: 'Montserrat', stack: "'Montserrat', Arial, sans-serif", webFontUrl: 'https://fonts.example.com/montserrat.woff2' },
+  ];
+  const { html } = await convertFixture('web-fonts', { embedWebFonts: true, fontMappings, outputMode: 'document' });
+  matchSnapshot('web-fonts', html);
+  assert.match(html, /\.wf1 \{ font-family:Georgia, serif !important; \}/);
+  assert.match(html, /\.wf2 \{ font-family:Arial, sans-serif !important; \}/);
+});
+
+test('document mode: doctype, title and hidden preheader', async () => {
+  const { html } = await convertFixture('vertical-stack', { outputMode: 'document', documentTitle: 'Spring sale', preheaderText: 'Up to 50% off' });
+  matchSnapshot('document', html);
+  assert.ok(html.startsWith('<!DOCTYPE html'));
+  assert.ok(html.includes('<title>Spring sale</title>'));
+  assert.match(html, /display:none;[^>]*>Up to 50% off/);
+});
+
+test('links: text segments, images and frames with a link', async () => {
+  const { html } = await convertFixture('links');
+  matchSnapshot('links', html);
+  assert.ok(html.includes('href="https://example.com/?a=1&amp;b=2"'));
+  assert.match(html, /<a href="https:\/\/shop\.example\.com"[^>]*><img /);
+  assert.ok(html.includes('href="https://example.com/card"'));
+});
+
+test('buttons: bulletproof links with a VML fallback for rounded corners', async () => {
+  const { html } = await convertFixture('buttons');
+  matchSnapshot('buttons', html);
+  assert.match(html, /<v:roundrect [^>]*href="https:\/\/shop\.example\.com"[^>]*arcsize="18%"/);
+  assert.ok(html.includes('border-radius:8px;'));
+});
+
+test('responsive: hybrid columns', async () => {
+  const { html } = await convertFixture('horizontal-stack', { responsiveMode: 'hybrid', outputMode: 'document' });
+  matchSnapshot('responsive-hybrid', html);
+  assert.ok(html.includes('class="stack-column"'));
+});
+
+test('responsive: stacked columns', async () => {
+  const { html } = await convertFixture('horizontal-stack', { responsiveMode: 'stack', outputMode: 'document' });
+  matchSnapshot('responsive-stack', html);
+  assert.match(html, /@media[^{]*max-width/);
+});
+
+test('images: JPG format names the hosted asset with its extension', async () => {
+  const { html, assets } = await convertFixture('images', { imageExportMode: 'hosted', assetBaseUrl: 'https://cdn.example.com/', imageFormat: 'JPG' });
+  matchSnapshot('images-hosted-jpg', html);
+  assert.strictEqual(assets.map(asset => asset.name).join(', '), 'hero-photo.jpg, logo.jpg');
+});
+
+test('images: byte budget lowers the scale until the export fits', async () => {
+  // 1 byte por pixel de largura: 600px em 2x = 1200 bytes, acima do limite de 1kb
+  const imageExporter = {
+    async exportImage(nodeId, settings) {
+      return Buffer.alloc(settings.constraint.value);
+    },
+    async exportImageFill(imageHash) {
+      return Buffer.from(`fill:${imageHash}`);
+    },
+  };
+  const { imageReport } = await convertFixture('images', { imageExportMode: 'hosted', imageFormat: 'PNG', imageByteBudgetKb: 1 }, { imageExporter });
+  matchSnapshot('image-budget', JSON.stringify(imageReport, null, 2), 'json');
+  assert.ok(imageReport.every(report => !report.overBudget));
+  assert.strictEqual(imageReport[0].scale, 1);
+});
+
+test('backgrounds: image fills and gradients get a VML fallback', async () => {
+  const { html } = await convertFixture('backgrounds', { imageExportMode: 'hosted', assetBaseUrl: 'https://cdn.example.com/' });
+  matchSnapshot('backgrounds', html);
+  assert.match(html, /<v:rect [\s\S]*<v:fill [^>]*src="https:\/\/cdn\.example\.com\//);
+  assert.ok(html.includes('linear-gradient(180deg, #ff0000 0%, #0000ff 100%)'));
+});
+
+test('strokes: borders, dashed sides and per-corner radius', async () => {
+  const { html } = await convertFixture('strokes');
+  matchSnapshot('strokes', html);
+  assert.ok(html.includes('border-radius:12px'));
+  assert.ok(html.includes('dashed'));
+});
+
+test('typography: letter spacing, text case, decoration and paragraph spacing', async () => {
+  const { html } = await convertFixture('typography');
+  matchSnapshot('typography', html);
+  assert.ok(html.includes('letter-spacing:0.05em; text-decoration:none;">HELLO </span>'));
+  assert.ok(html.includes('text-decoration:line-through;'));
+  assert.ok(html.includes('margin-bottom:12px;'));
+});
+
+// valores do modo "Dark" das variáveis da fixture
+const darkModeColors = { 'V:bg': { r: 0.1, g: 0.1, b: 0.1, a: 1 }, 'V:text': { r: 1, g: 1, b: 1, a: 1 }, 'V:accent': { r: 1, g: 0.5, b: 0.5, a: 1 }, 'V:muted': { r: 0.6, g: 0.6, b: 0.6, a: 1 } };
+
+test('dark mode: variable colors get prefers-color-scheme overrides', async () => {
+  const { html } = await convertFixture('dark-mode', { darkMode: true, outputMode: 'document' }, { darkModeColors });
+  matchSnapshot('dark-mode', html);
+  assert.ok(html.includes('<meta name="color-scheme" content="light dark" />'));
+  assert.match(html, /@media \(prefers-color-scheme: dark\) \{[\s\S]*color:#ffffff !important;/);
+  // V:text e V:muted têm a mesma cor clara: cada uma fica com a sua cor escura
+  assert.match(html, /\.dm-c2 \{ color:#ffffff !important; \}/);
+  assert.match(html, /\.dm-c4 \{ color:#999999 !important; \}/);
+  assert.match(html, /class="dm-c4"[^>]*color:#000001;|color:#000001;[^>]*class="dm-c4"/);
+});
+
+test('dark mode: MJML keeps the light colors and says so', async () => {
+  const { html, warnings } = await convertFixture('dark-mode', { darkMode: true, outputFormat: 'mjml' }, { darkModeColors });
+  assert.ok(!html.includes('prefers-color-scheme'));
+  assert.ok(warnings.some(warning => warning.nodeName === 'Dark mode'));
+});
+
+test('mjml: sections, text, buttons and images', async () => {
+  const { html } = await convertFixture('buttons', { outputFormat: 'mjml' });
+  matchSnapshot('mjml-buttons', html);
+  assert.match(html, /^<mjml>/);
+  assert.match(html, /<mj-button [^>]*href="https:\/\/shop\.example\.com"/);
+});
+
+test('mjml: columns', async () => {
+  const { html } = await convertFixture('horizontal-stack', { outputFormat: 'mjml' });
+  matchSnapshot('mjml-columns', html);
+  assert.strictEqual(html.match(/<mj-column/g).length, 2);
+});
+
+test('analysis: width, effects, small text, contrast and unsupported nodes', async () => {
+  const { warnings } = await convertFixture('warnings');
+  matchSnapshot('warnings', JSON.stringify(warnings, null, 2), 'json');
+  assert.ok(warnings.some(warning => warning.nodeName === 'Star 1'));
+});
+
+test('inference: frames without auto layout become rows and columns', async () => {
+  const { html } = await convertFixture('inference');
+  matchSnapshot('inference', html);
+  assert.ok(html.includes('Shop About'));
+  assert.ok(html.includes('background-color:#f2f2f2'));
+});
+
+test('alignment: center, end, space-between, fill and wrap', async () => {
+  const { html } = await convertFixture('alignment');
+  matchSnapshot('alignment', html);
+  assert.ok(html.includes('<td width="510" style="width:510px;">&nbsp;</td>'));
+  // as células das linhas quebradas ficam na largura do item
+  assert.strictEqual(html.match(/<td valign="top" width="250" style="width:250px;">/g).length, 3);
+});
+
+for (const espProfile of ['mailchimp', 'ampscript', 'liquid', 'hubl', 'handlebars']) {
+  test(`esp: ${espProfile} merge tags, conditionals and loops`, async () => {
+    const { html } = await convertFixture('esp', { espProfile });
+    matchSnapshot(`esp-${espProfile}`, html);
+  });
+}
+
+test('esp: mailchimp aliases and conditionals', async () => {
+  const { html } = await convertFixture('esp', { espProfile: 'mailchimp' });
+  assert.ok(html.includes('Hi *|FNAME|*!'));
+  assert.match(html, /\*\|IF:COUPON\|\*[\s\S]*\*\|END:IF\|\*/);
+});
+
+test('esp: merge tags inside a loop point at the loop item', async () => {
+  const ampscript = (await convertFixture('esp', { espProfile: 'ampscript' })).html;
+  assert.ok(ampscript.includes('%%[ SET @products = BuildRowsetFromJSON(AttributeValue("products"), "$.[*]", 1) FOR @products_i = 1 TO RowCount(@products) DO ]%%'));
+  assert.ok(ampscript.includes('%%=Field(Row(@products, @products_i), "title")=%% for %%first_name%%'));
+  const handlebars = (await convertFixture('esp', { espProfile: 'handlebars' })).html;
+  assert.match(handlebars, /\{\{#each products as \|item\|\}\}[\s\S]*\{\{item\.title\}\} for \{\{@root\.first_name\}\}[\s\S]*\{\{\/each\}\}/);
+  const liquid = (await convertFixture('esp', { espProfile: 'liquid', outputFormat: 'mjml' })).html;
+  assert.match(liquid, /\{% for item in \$\{products\} %\}[\s\S]*\{\{ item\.title \}\} for \{\{\$\{first_name\}\}\}[\s\S]*\{% endfor %\}/);
+});
+
+test('minified output with repeated styles extracted into classes', async () => {
+  const { html } = await convertFixture('vertical-stack', { htmlFormat: 'minified', extractStyleClasses: true, outputMode: 'document' });
+  matchSnapshot('minified-classes', html);
+  assert.ok(!html.includes('\n'));
+  assert.match(html, /\.st1\{[^}]+\}/);
+  assert.ok(html.includes('class="st1"'));
+});
+
+test('headings, lang and right-to-left text', async () => {
+  const { html } = await convertFixture('headings', { headingMode: 'auto', lang: 'ar', outputMode: 'document' });
+  matchSnapshot('headings-rtl', html);
+  assert.match(html, /<html [^>]*lang="ar"[^>]*dir="rtl"|<html [^>]*dir="rtl"[^>]*lang="ar"/);
+  assert.match(html, /<h1 [^>]*>\s*Big title/);
+  assert.match(html, /<h2 [^>]*>\s*Auto sized/);
+});
+
+test('text layers honor the Raw HTML and Export As One Image overrides', async () => {
+  const { html } = await convertFixture('text-overrides');
+  matchSnapshot('text-overrides', html);
+  assert.ok(html.includes('<p class="legal">Custom legal copy</p>'));
+  assert.ok(!html.includes('Replaced by raw html'));
+  assert.ok(!html.includes('Exported as image</'));
+  assert.match(html, /<img src="[^"]+300x40[^"]*"[^>]*alt="Fancy title"/);
+});
+
+test('partials: text rows bound to a boolean property stay inside the if block', async () => {
+  const { html, templates } = await convertFixture('partials', { espProfile: 'liquid', templatePartials: true });
+  const files = [`email${templates.extension}`, html, ...templates.partials.flatMap(partial => [`partials/${partial.name}${templates.extension}`, partial.html])];
+  matchSnapshot('partials-liquid', files.join('\n\n'));
+  const card = templates.partials.find(partial => partial.name === 'card').html;
+  assert.match(card, /\{% if show_badge %\}\s*<tr>[\s\S]*NEW[\s\S]*<\/tr>\s*\{% endif %\}/);
+  assert.ok(card.includes('{% render icon %}'));
+  assert.ok(!/\{% include/.test(files.join('\n')));
+});
+
+test('partials: Handlebars wraps boolean-bound text rows too', async () => {
+  const { templates } = await convertFixture('partials', { espProfile: 'handlebars', templatePartials: true });
+  const card = templates.partials.find(partial => partial.name === 'card').html;
+  assert.match(card, /\{\{#if show_badge\}\}\s*<tr>[\s\S]*NEW[\s\S]*<\/tr>\s*\{\{\/if\}\}/);
+});
+
+test('cancelling while image exports are queued stops the conversion', async () => {
+  let cancelled = false;
+  // os fundos dos botões ocupam as 4 exportações em paralelo e nunca são usados; a foto do fim fica na fila
+  const imageExporter = {
+    async exportImage(nodeId) {
+      return Buffer.from(`node:${nodeId}`);
+    },
+    exportImageFill(imageHash) {
+      return new Promise(resolve => setTimeout(() => resolve(Buffer.from(`fill:${imageHash}`)), 30));
+    },
+  };
+  const monitor = {
+    // cancela depois do último node: só a exportação na fila pode perceber
+    onProgress(done, total) {
+      if (done === total) cancelled = true;
+    },
+    isCancelled: () => cancelled,
+  };
+  await assert.rejects(convertFixture('cancel-export', { imageExportMode: 'hosted' }, { imageExporter, monitor }), { message: 'Conversion cancelled' });
+});
@@ -0,0 +1,69 @@
+// carrega out/email.js (compilado por tsconfig.test.json) fora do figma e compara com os snapshots
+const assert = require('node:assert');
+const fs = require('node:fs');
+const path = require('node:path');
+const vm = require('node:vm');
+
+const source = fs.readFileSync(path.join(__dirname, '..', 'out', 'email.js'), 'utf8');
+
+const defaultSettings = {
+  imageExportMode: 'placeholder',
+  assetBaseUrl: '',
+  imageFormat: 'auto',
+  imageScale: 2,
+  jpgQuality: 80,
+  imageByteBudgetKb: 0,
+  useLiteralWidth: false,
+  buttonNamePattern: '^(button|btn|cta)\\b',
+  responsiveMode: 'off',
+  fontMappings: [],
+  embedWebFonts: false,
+  darkMode: false,
+  espProfile: 'none',
+  outputFormat: 'html',
+  outputMode: 'fragment',
+  htmlFormat: 'pretty',
+  extractStyleClasses: false,
+  headingMode: 'styles',
+  lang: '',
+  textDirection: 'auto',
+  templatePartials: false,
+  documentTitle: '',
+  preheaderText: '',
+};
+
+// o fixtureImageExporter devolve bytes vazios (todas as imagens viram um asset só); aqui cada node tem bytes próprios
+const testImageExporter = {
+  async exportImage(nodeId) {
+    return Buffer.from(`node:${nodeId}`);
+  },
+  async exportImageFill(imageHash) {
+    return Buffer.from(`fill:${imageHash}`);
+  },
+};
+
+// contexto novo por conversão: o contador de ids das fixtures recomeça, então o html é estável
+// options: imageExporter, darkModeColors e monitor próprios (ex: cancelar no meio das exportações)
+async function convertFixture(name, settings = {}, options = {}) {
+  const context = vm.createContext({ console, setTimeout, clearTimeout });
+  vm.runInContext(source, context, { filename: 'email.js' });
+  const { jsonFixtureToEmailNode, convertEmailNodes } = vm.runInContext('({ jsonFixtureToEmailNode, convertEmailNodes })', context);
+  const fixture = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+  const nodes = (Array.isArray(fixture) ? fixture : [fixture]).map(jsonFixtureToEmailNode);
+  return convertEmailNodes(nodes, { ...defaultSettings, ...settings }, options.imageExporter || testImageExporter, options.darkModeColors || {}, options.monitor);
+}
+
+// snapshot novo só é gravado fora do CI (ou com UPDATE_SNAPSHOTS=1); no CI, faltar snapshot é erro
+// extension: json pros relatórios (avisos, imagens), html pro resto
+function matchSnapshot(name, actual, extension = 'html') {
+  const file = path.join(__dirname, '__snapshots__', `${name}.${extension}`);
+  const update = process.env.UPDATE_SNAPSHOTS === '1';
+  if (update || (!fs.existsSync(file) && !process.env.CI)) {
+    fs.writeFileSync(file, actual);
+    return;
+  }
+  assert.ok(fs.existsSync(file), `missing snapshot ${name}.${extension} (run with UPDATE_SNAPSHOTS=1)`);
+  assert.strictEqual(actual, fs.readFileSync(file, 'utf8'));
+}
+
+module.exports = { convertFixture, matchSnapshot };